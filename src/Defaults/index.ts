@@ -1,6 +1,6 @@
 import { proto } from '../../WAProto/index.js'
 import { makeLibSignalRepository } from '../Signal/libsignal'
-import type { AuthenticationState, SocketConfig, WAVersion } from '../Types'
+import type { AuthenticationState, SignalDataTypeMap, SocketConfig, WAVersion } from '../Types'
 import { Browsers } from '../Utils/browser-utils'
 import logger from '../Utils/logger'
 import defaultVersion from './baileys-version.json' with { type: 'json' }
@@ -57,6 +57,7 @@ export const DEFAULT_CONNECTION_CONFIG: SocketConfig = {
 	customUploadHosts: [],
 	retryRequestDelayMs: 250,
 	maxMsgRetryCount: 5,
+	mediaRetryTimeoutMs: 30_000,
 	fireInitQueries: true,
 	auth: undefined as unknown as AuthenticationState,
 	markOnlineOnConnect: true,
@@ -79,6 +80,7 @@ export const DEFAULT_CONNECTION_CONFIG: SocketConfig = {
 	cachedGroupMetadata: async () => undefined,
 	makeSignalRepository: makeLibSignalRepository,
 	transformAudio: false,
+	transformVideo: false,
 	// 🆕 Flags de compatibilidade v6 para envio em grupos
 	compatV6GroupSend: true, // Ativar por padrão para evitar problemas
 	groupAssertChunk: 10, // Lotes de 10 participantes (menor = mais estável)
@@ -129,6 +131,18 @@ export const MIN_PREKEY_COUNT = 5
 
 export const INITIAL_PREKEY_COUNT = 812
 
+/** every category of data kept in the signal key store */
+export const SIGNAL_DATA_TYPES = Object.keys({
+	'pre-key': true,
+	session: true,
+	'sender-key': true,
+	'sender-key-memory': true,
+	'app-state-sync-key': true,
+	'app-state-sync-version': true,
+	'lid-mapping': true,
+	'device-list': true
+} satisfies { [T in keyof SignalDataTypeMap]: true }) as (keyof SignalDataTypeMap)[]
+
 export const UPLOAD_TIMEOUT = 30000 // 30 seconds
 export const MIN_UPLOAD_INTERVAL = 5000 // 5 seconds minimum between uploads
 
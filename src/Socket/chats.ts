@@ -1169,7 +1169,7 @@ export const makeChatsSocket = (config: SocketConfig) => {
 		}
 	})
 
-	ev.on('connection.update', ({ connection, receivedPendingNotifications }) => {
+	ev.onInternal('connection.update', ({ connection, receivedPendingNotifications }) => {
 		if (connection === 'open') {
 			if (fireInitQueries) {
 				executeInitQueries().catch(error => onUnexpectedError(error, 'init queries'))
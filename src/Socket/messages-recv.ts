@@ -17,7 +17,7 @@ import type {
 	WAMessageKey,
 	WAPatchName
 } from '../Types'
-import { WAMessageStatus, WAMessageStubType } from '../Types'
+import { DisconnectReason, WAMessageStatus, WAMessageStubType } from '../Types'
 import {
 	aesDecryptCTR,
 	aesEncryptGCM,
@@ -37,6 +37,9 @@ import {
 	getNextPreKeys,
 	getStatusFromReceiptType,
 	hkdf,
+	makeDeliveryTracker,
+	makeEventResponseTracker,
+	makePollTracker,
 	MISSING_KEYS_ERROR_TEXT,
 	NACK_REASONS,
 	unixTimestampSeconds,
@@ -113,6 +116,16 @@ export const makeMessagesRecvSocket = (config: SocketConfig) => {
 			useClones: false
 		})
 
+	const deliveryTracker = makeDeliveryTracker()
+	const pollTracker = makePollTracker({ ev, logger, creds: authState.creds, getMessage })
+	const eventResponseTracker = makeEventResponseTracker({
+		ev,
+		logger,
+		creds: authState.creds,
+		getMessage,
+		relayMessage
+	})
+
 	let sendActiveReceipts = false
 
 	const fetchMessageHistory = async (
@@ -1120,6 +1133,10 @@ export const makeMessagesRecvSocket = (config: SocketConfig) => {
 			await Promise.all([
 				processingMutex.mutex(async () => {
 					const status = getStatusFromReceiptType(attrs.type)
+					if (fromMe && typeof status !== 'undefined') {
+						deliveryTracker.handleReceipt(ids, status)
+					}
+
 					if (
 						typeof status !== 'undefined' &&
 						// basically, we only want to know when a message from us has been delivered to/read by the other person
@@ -1425,6 +1442,7 @@ export const makeMessagesRecvSocket = (config: SocketConfig) => {
 
 	const handleBadAck = async ({ attrs }: BinaryNode) => {
 		const key: WAMessageKey = { remoteJid: attrs.from, fromMe: true, id: attrs.id }
+		deliveryTracker.handleAck(key, attrs.error)
 
 		// WARNING: REFRAIN FROM ENABLING THIS FOR NOW. IT WILL CAUSE A LOOP
 		// // current hypothesis is that if pash is sent in the ack
@@ -1558,7 +1576,7 @@ export const makeMessagesRecvSocket = (config: SocketConfig) => {
 		handleBadAck(node).catch(error => onUnexpectedError(error, 'handling bad ack'))
 	})
 
-	ev.on('call', ([call]) => {
+	ev.onInternal('call', ([call]) => {
 		if (!call) {
 			return
 		}
@@ -1590,7 +1608,11 @@ export const makeMessagesRecvSocket = (config: SocketConfig) => {
 		}
 	})
 
-	ev.on('connection.update', ({ isOnline }) => {
+	ev.onInternal('connection.update', ({ connection, isOnline }) => {
+		if (connection === 'close') {
+			deliveryTracker.rejectAll(new Boom('Connection Closed', { statusCode: DisconnectReason.connectionClosed }))
+		}
+
 		if (typeof isOnline !== 'undefined') {
 			sendActiveReceipts = isOnline
 			logger.trace(`sendActiveReceipts set to "${sendActiveReceipts}"`)
@@ -1604,6 +1626,13 @@ export const makeMessagesRecvSocket = (config: SocketConfig) => {
 		rejectCall,
 		fetchMessageHistory,
 		requestPlaceholderResend,
-		messageRetryManager
+		messageRetryManager,
+		/**
+		 * track the acks & receipts of a sent message,
+		 * eg. `await sock.trackDelivery(msg.key).until('delivered', { timeoutMs: 30_000 })`
+		 */
+		trackDelivery: deliveryTracker.track,
+		pollTracker,
+		...eventResponseTracker
 	}
 }
@@ -5,11 +5,13 @@ import ListType = proto.Message.ListMessage.ListType;
 import { DEFAULT_CACHE_TTLS, WA_DEFAULT_EPHEMERAL } from '../Defaults'
 import type {
 	AnyMessageContent,
+	CampaignOptions,
 	MediaConnInfo,
 	MessageReceiptType,
 	MessageRelayOptions,
 	MiscMessageGenerationOptions,
 	SocketConfig,
+	WAAlbumMessage,
 	WAMessage,
 	WAMessageKey
 } from '../Types'
@@ -17,7 +19,11 @@ import {
 	aggregateMessageKeysNotFromMe,
 	assertMediaContent,
 	bindWaitForEvent,
+	type Campaign,
+	type CampaignConfig,
 	decryptMediaRetryData,
+	downloadMediaMessage,
+	downloadMediaToFile,
 	encodeNewsletterMessage,
 	encodeSignedDeviceIdentity,
 	encodeWAMessage,
@@ -25,10 +31,21 @@ import {
 	extractDeviceJids,
 	generateMessageIDV2,
 	generateParticipantHashV2,
+	generateWAAlbumMessages,
 	generateWAMessage,
+	generateWAMessageContent,
+	generateWAMessageFromContent,
+	getInteractiveBizNode,
+	getMediaRetryResult,
 	getStatusCodeForMediaRetry,
 	getUrlFromDirectPath,
 	getWAUploadToServer,
+	makeCampaign,
+	makeMemoryScheduledMessageStore,
+	makeMessageScheduler,
+	makeSendRateLimiter,
+	makeStatusSender,
+	type MediaDownloadOptions,
 	MessageRetryManager,
 	normalizeMessageContent,
 	parseAndInjectE2ESessions,
@@ -123,14 +140,17 @@ export const makeMessagesSocket = (config: SocketConfig) => {
 		enableRecentMessageCache,
 		maxMsgRetryCount,
 		transformAudio,
+		transformVideo,
 		compatV6GroupSend = true,
 		groupAssertChunk = 10,
 		groupAssertDelayMs = 250,
-		recentMessagesCacheSize = 20000
+		recentMessagesCacheSize = 20000,
+		sendRateLimit
 	} = config
 	const sock = makeNewsletterSocket(config)
 	const {
 		ev,
+		ws,
 		authState,
 		processingMutex,
 		signalRepository,
@@ -627,7 +647,18 @@ export const makeMessagesSocket = (config: SocketConfig) => {
 		return { nodes, shouldIncludeDeviceIdentity }
 	}
 
-	const relayMessage = async (
+	const sendRateLimiter = sendRateLimit
+		? makeSendRateLimiter(
+				{
+					// contacts messaged before have a session, which unlike the limiter's memory survives restarts
+					isNewContact: async jid => !(await signalRepository.validateSession(jid)).exists,
+					...sendRateLimit
+				},
+				logger
+			)
+		: undefined
+
+	const relayMessageNow = async (
 		jid: string,
 		message: proto.IMessage,
 		{
@@ -1084,8 +1115,12 @@ export const makeMessagesSocket = (config: SocketConfig) => {
 			}
 
 			// add buttons here
+			const interactiveBizNode = getInteractiveBizNode(message)
 			const buttonType = getButtonType(message)
-			if(buttonType) {
+			if (interactiveBizNode) {
+				;(stanza.content as BinaryNode[]).push(interactiveBizNode)
+				logger.debug({ jid }, 'adding interactive business node')
+			} else if(buttonType) {
 				(stanza.content as BinaryNode[]).push({
 					tag: 'biz',
 					attrs: { },
@@ -1119,6 +1154,26 @@ export const makeMessagesSocket = (config: SocketConfig) => {
 		return msgId
 	}
 
+	/** relays the message once the send rate limit allows it, retries & messages to our own devices skip the limit */
+	const relayMessage = (jid: string, message: proto.IMessage, options: MessageRelayOptions) =>
+		sendRateLimiter && !options.participant && options.additionalAttributes?.category !== 'peer'
+			? sendRateLimiter.schedule(jid, () => relayMessageNow(jid, message, options))
+			: relayMessageNow(jid, message, options)
+
+	if (sendRateLimiter) {
+		ws.on('CB:ack,class:message', ({ attrs }: BinaryNode) => {
+			if (attrs.error) {
+				sendRateLimiter.handleAckError(+attrs.error)
+			}
+		})
+
+		ev.onInternal('messages.upsert', ({ messages }) => {
+			for (const { key } of messages) {
+				key.remoteJid && sendRateLimiter.markContactKnown(key.remoteJid)
+			}
+		})
+	}
+
 	const getMessageType = (message: proto.IMessage) => {
 		if (message.pollCreationMessage || message.pollCreationMessageV2 || message.pollCreationMessageV3) {
 			return 'poll'
@@ -1178,8 +1233,6 @@ export const makeMessagesSocket = (config: SocketConfig) => {
 			return 'list'
 		} else if(message.listResponseMessage) {
 			return 'list_response'
-		} else if(message.interactiveMessage) {
-			return 'interactive'
 		}
 	}
 
@@ -1189,22 +1242,7 @@ export const makeMessagesSocket = (config: SocketConfig) => {
 			return {}
 		} else if(message.listMessage) {
 			return { v: '2', type: proto.Message.ListMessage.ListType[ListType.PRODUCT_LIST].toLowerCase() }
-		} else if(message.interactiveMessage) {
-            const buttons = message.interactiveMessage.nativeFlowMessage?.buttons || [];
-            const hasPaymentInfoButton = buttons.some(button => button.name === "payment_info");
-            
-            if (hasPaymentInfoButton) {
-                return {
-                    v: "1",
-                    type: "native_flow"
-                };
-            }
-            
-            return {
-                type: "native_flow"
-            };
-        } 
-		else {
+		} else {
 			return {}
 		}
 	}
@@ -1216,27 +1254,6 @@ export const makeMessagesSocket = (config: SocketConfig) => {
             // TODO: Add attributes
             return [];
         }
-        else if (message.interactiveMessage) {
-            const buttons = message.interactiveMessage.nativeFlowMessage?.buttons || [];
-            const hasPaymentInfoButton = buttons.some(button => button.name === "payment_info");
-            
-            if (hasPaymentInfoButton) {
-                return [{
-                    tag: "native_flow",
-                    attrs: {
-                        name: "payment_info"
-                    }
-                }];
-            } else {
-                return [{
-                    tag: "native_flow",
-                    attrs: {
-                        v: "2",
-                        name: "mixed"
-                    }
-                }];
-            }
-        }
         else {
             return [];
         }
@@ -1272,9 +1289,21 @@ export const makeMessagesSocket = (config: SocketConfig) => {
 
 	const waUploadToServer = getWAUploadToServer(config, refreshMediaConn)
 
+	/** the options every message with media is generated with */
+	const getMediaGenerationOptions = () => ({
+		logger,
+		upload: waUploadToServer,
+		mediaCache: config.mediaCache,
+		mediaUploadCache: config.mediaUploadCache,
+		mediaUploadCacheTtlMs: config.mediaUploadCacheTtlMs,
+		options: config.options as any,
+		transformAudio,
+		transformVideo
+	})
+
 	const waitForMsgMediaUpdate = bindWaitForEvent(ev, 'messages.media-update')
 
-	return {
+	const socket = {
 		...sock,
 		getPrivacyTokens,
 		assertSessions,
@@ -1289,7 +1318,15 @@ export const makeMessagesSocket = (config: SocketConfig) => {
 		createParticipantNodes,
 		getUSyncDevices,
 		messageRetryManager,
-		updateMediaMessage: async (message: WAMessage) => {
+		sendRateLimiter,
+		/**
+		 * ask the phone to re-upload the media of the message, for media whose URL expired
+		 * @param timeoutMs how long to wait for the phone, defaults to `mediaRetryTimeoutMs`
+		 */
+		updateMediaMessage: async (
+			message: WAMessage,
+			{ timeoutMs = config.mediaRetryTimeoutMs }: { timeoutMs?: number } = {}
+		) => {
 			const content = assertMediaContent(message.message)
 			const mediaKey = content.mediaKey!
 			const meId = authState.creds.me!.id
@@ -1309,7 +1346,7 @@ export const makeMessagesSocket = (config: SocketConfig) => {
 								if (media.result !== proto.MediaRetryNotification.ResultType.SUCCESS) {
 									const resultStr = proto.MediaRetryNotification.ResultType[media.result!]
 									throw new Boom(`Media re-upload failed by device (${resultStr})`, {
-										data: media,
+										data: { ...media, result: getMediaRetryResult(media.result!) },
 										statusCode: getStatusCodeForMediaRetry(media.result!) || 404
 									})
 								}
@@ -1325,7 +1362,7 @@ export const makeMessagesSocket = (config: SocketConfig) => {
 
 						return true
 					}
-				})
+				}, timeoutMs)
 			])
 
 			if (error) {
@@ -1336,6 +1373,32 @@ export const makeMessagesSocket = (config: SocketConfig) => {
 
 			return message
 		},
+		/**
+		 * download the media of a message, if its URL expired the phone is asked to re-upload it first
+		 * @param reuploadTimeoutMs how long to wait for the phone, defaults to `mediaRetryTimeoutMs`
+		 */
+		downloadMediaMessage: <Type extends 'buffer' | 'stream'>(
+			message: WAMessage,
+			type: Type,
+			{ reuploadTimeoutMs, ...options }: MediaDownloadOptions & { reuploadTimeoutMs?: number } = {}
+		) =>
+			downloadMediaMessage(message, type, options, {
+				logger,
+				reuploadRequest: msg => socket.updateMediaMessage(msg, { timeoutMs: reuploadTimeoutMs })
+			}),
+		/**
+		 * download the media of a message to a file once verified, re-uploading expired media like `downloadMediaMessage`
+		 * @param reuploadTimeoutMs how long to wait for the phone, defaults to `mediaRetryTimeoutMs`
+		 */
+		downloadMediaToFile: (
+			message: WAMessage,
+			path: string,
+			{ reuploadTimeoutMs, ...options }: Pick<MediaDownloadOptions, 'options'> & { reuploadTimeoutMs?: number } = {}
+		) =>
+			downloadMediaToFile(message, path, options, {
+				logger,
+				reuploadRequest: msg => socket.updateMediaMessage(msg, { timeoutMs: reuploadTimeoutMs })
+			}),
 		sendMessage: async (jid: string, content: AnyMessageContent, options: MiscMessageGenerationOptions = {}) => {
 			const userJid = authState.creds.me!.id
 			if (
@@ -1352,9 +1415,50 @@ export const makeMessagesSocket = (config: SocketConfig) => {
 							: 0
 						: disappearingMessagesInChat
 				await groupToggleEphemeral(jid, value)
+			} else if ('album' in content) {
+				const { parent, items } = await generateWAAlbumMessages(jid, content.album, {
+					...getMediaGenerationOptions(),
+					userJid,
+					messageId: generateMessageIDV2(sock.user?.id),
+					...options
+				})
+				// the items are linked to the album, so it's sent first
+				const sent: WAMessage[] = []
+				try {
+					for (const msg of [parent, ...items]) {
+						await relayMessage(jid, msg.message!, {
+							messageId: msg.key.id!,
+							useCachedGroupMetadata: options.useCachedGroupMetadata,
+							statusJidList: options.statusJidList
+						})
+						sent.push(msg)
+						if (config.emitOwnEvents) {
+							process.nextTick(() => {
+								processingMutex.mutex(() => upsertMessage(msg, 'append'))
+							})
+						}
+					}
+				} catch (error) {
+					// don't leave half an album in the chat, revoke what was sent
+					for (const { key } of sent) {
+						await relayMessage(
+							jid,
+							{ protocolMessage: { key, type: proto.Message.ProtocolMessage.Type.REVOKE } },
+							{ messageId: generateMessageIDV2(sock.user?.id), additionalAttributes: { edit: '7' } }
+						).catch(err => logger.warn({ err, key }, 'failed to revoke album message'))
+					}
+
+					throw new Boom('Failed to send album', {
+						statusCode: error instanceof Boom ? error.output.statusCode : 500,
+						data: { key: parent.key, sent: sent.length, total: items.length + 1, error }
+					})
+				}
+
+				const albumMsg: WAAlbumMessage = { ...parent, albumItems: items }
+				return albumMsg
 			} else {
 				const fullMsg = await generateWAMessage(jid, content, {
-					logger,
+					...getMediaGenerationOptions(),
 				userJid,
 				getUrlInfo: text =>
 					getUrlInfo(text, {
@@ -1369,10 +1473,6 @@ export const makeMessagesSocket = (config: SocketConfig) => {
 				//TODO: CACHE
 				getProfilePicUrl: sock.profilePictureUrl,
 				getCallLink: sock.createCallLink,
-				upload: waUploadToServer,
-				mediaCache: config.mediaCache,
-				options: config.options as any,
-					transformAudio,
 					messageId: generateMessageIDV2(sock.user?.id),
 					...options
 				})
@@ -1436,4 +1536,63 @@ export const makeMessagesSocket = (config: SocketConfig) => {
 			}
 		}
 	}
+
+	const scheduler = makeMessageScheduler({
+		store: config.scheduledMessageStore || makeMemoryScheduledMessageStore(),
+		missedPolicy: config.missedScheduledMessagePolicy || 'send',
+		ev,
+		logger,
+		sendMessage: socket.sendMessage
+	})
+
+	const statusSender = makeStatusSender({
+		ev,
+		logger,
+		generateMessage: (jid, content, options) =>
+			generateWAMessage(jid, content, {
+				...getMediaGenerationOptions(),
+				userJid: authState.creds.me!.id,
+				messageId: generateMessageIDV2(sock.user?.id),
+				...options
+			}),
+		relayMessage
+	})
+
+	/** sends generated content, as is */
+	const sendContent = async (jid: string, content: proto.IMessage) => {
+		const fullMsg = generateWAMessageFromContent(jid, content, {
+			userJid: authState.creds.me!.id,
+			messageId: generateMessageIDV2(sock.user?.id)
+		})
+		await relayMessage(jid, fullMsg.message!, { messageId: fullMsg.key.id! })
+		if (config.emitOwnEvents) {
+			process.nextTick(() => {
+				processingMutex.mutex(() => upsertMessage(fullMsg, 'append'))
+			})
+		}
+
+		return fullMsg
+	}
+
+	const getCampaignConfig = (): CampaignConfig => ({
+		ev,
+		logger,
+		onWhatsApp: sock.onWhatsApp,
+		sendMessage: socket.sendMessage,
+		generateContent: content => generateWAMessageContent(content, getMediaGenerationOptions()),
+		sendContent
+	})
+
+	return {
+		...socket,
+		...scheduler,
+		...statusSender,
+		/**
+		 * create a campaign, to send a message one-to-one to many recipients.
+		 * Call `start()` on it to begin sending
+		 */
+		createCampaign: (options: CampaignOptions) => makeCampaign(getCampaignConfig(), options),
+		/** continue a campaign created on a previous socket on this one, eg. after reconnecting */
+		bindCampaign: (campaign: Campaign) => campaign.bind(getCampaignConfig())
+	}
 }
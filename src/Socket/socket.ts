@@ -969,7 +969,7 @@ export const makeSocket = (config: SocketConfig) => {
 	})
 
 	// update credentials when required
-	ev.on('creds.update', update => {
+	ev.onInternal('creds.update', update => {
 		const name = update.me?.name
 		// if name has just been received
 		if (creds.me?.name !== name) {
@@ -0,0 +1,3 @@
+export * from './make-message-store'
+export * from './memory-store-driver'
+export * from './sqlite-store-driver'
@@ -0,0 +1,350 @@
+import type Long from 'long'
+import type { proto } from '../../WAProto/index.js'
+import type {
+	BaileysEventEmitter,
+	BaileysEventMap,
+	Chat,
+	ChatUpdate,
+	Contact,
+	GroupMetadata,
+	GroupParticipant,
+	MessageStoreDriver,
+	WAMessage,
+	WAMessageCursor,
+	WAMessageKey
+} from '../Types'
+import { makeBufferData } from '../Utils/event-buffer'
+import { getKeyAuthor, promiseTimeout, toNumber } from '../Utils/generics'
+import type { ILogger } from '../Utils/logger'
+import { makeMutex } from '../Utils/make-mutex'
+import { updateMessageWithReaction, updateMessageWithReceipt } from '../Utils/messages'
+import { jidNormalizedUser } from '../WABinary'
+import { makeMemoryStoreDriver } from './memory-store-driver'
+
+export type MessageStoreConfig = {
+	/** where to keep the data, defaults to memory */
+	driver?: MessageStoreDriver
+	/**
+	 * requests older messages from the phone, once `loadMessages` runs out of stored messages.
+	 * Eg. `(...args) => sock.fetchMessageHistory(...args)`, which keeps working with the socket of a reconnect
+	 */
+	fetchMessageHistory?: (
+		count: number,
+		oldestMsgKey: WAMessageKey,
+		oldestMsgTimestamp: number | Long
+	) => Promise<string>
+	/** how long to wait for the phone to send the requested history, defaults to 10s */
+	historyTimeoutMs?: number
+	logger?: ILogger
+}
+
+type EventHandlers = { [E in keyof BaileysEventMap]?: (data: BaileysEventMap[E]) => Promise<void> }
+
+/**
+ * Keeps the messages, chats, contacts & group metadata seen on a socket,
+ * and provides `getMessage` & `cachedGroupMetadata` to pass to `makeWASocket` --
+ * so message retries & poll vote decryption work out of the box.
+ *
+ * All events are applied in the order they were emitted, reads wait for pending writes
+ */
+export const makeMessageStore = ({
+	driver = makeMemoryStoreDriver(),
+	fetchMessageHistory,
+	historyTimeoutMs = 10_000,
+	logger
+}: MessageStoreConfig = {}) => {
+	const { mutex } = makeMutex()
+	/** notified once history from the phone is stored */
+	const historyListeners = new Set<(messages: WAMessage[]) => void>()
+	/** our JID, to attribute our own messages */
+	let meId: string | undefined
+
+	const loadMessage = (jid: string, id: string) =>
+		mutex(async () => {
+			const { [id]: msg } = await driver.getMessages(jid, [id])
+			return msg
+		})
+
+	/**
+	 * page through the stored messages of a chat, ordered by timestamp (oldest first).
+	 * When paging backwards & the store runs out, the remaining messages are requested from the phone
+	 * with the `fetchMessageHistory` of the config
+	 * @param cursor the key to page from, defaults to the latest messages
+	 */
+	const loadMessages = async (jid: string, count: number, cursor: WAMessageCursor = { before: undefined }) => {
+		const messages = await mutex(async () => driver.listMessages(jid, count, cursor))
+		if (!('before' in cursor) || messages.length >= count || !fetchMessageHistory) {
+			return messages
+		}
+
+		const oldest = messages[0] || (cursor.before ? await loadMessage(jid, cursor.before.id!) : undefined)
+		if (!oldest) {
+			// the phone needs a message to fetch history before
+			return messages
+		}
+
+		let listener: ((messages: WAMessage[]) => void) | undefined
+		try {
+			await promiseTimeout<void>(historyTimeoutMs, (resolve, reject) => {
+				listener = received => {
+					if (received.some(({ key }) => key.remoteJid === jid)) {
+						resolve()
+					}
+				}
+
+				historyListeners.add(listener)
+				fetchMessageHistory(count - messages.length, oldest.key, oldest.messageTimestamp!).catch(reject)
+			})
+		} catch (error) {
+			logger?.debug({ error, jid }, 'did not receive history from phone')
+			return messages
+		} finally {
+			historyListeners.delete(listener!)
+		}
+
+		return mutex(async () => driver.listMessages(jid, count, cursor))
+	}
+
+	const loadRecord = async <T extends 'chats' | 'contacts' | 'groups'>(type: T, id: string) => {
+		const { [id]: record } = await driver.get(type, [id])
+		return record
+	}
+
+	const upsertChats = async (chats: Chat[]) => {
+		const updates: { [id: string]: Chat } = {}
+		for (const chat of chats) {
+			const existing = updates[chat.id!] || (await loadRecord('chats', chat.id!))
+			updates[chat.id!] = { ...existing, ...chat }
+		}
+
+		await driver.set('chats', updates)
+	}
+
+	const updateChats = async (chatUpdates: ChatUpdate[]) => {
+		const updates: { [id: string]: Chat } = {}
+		for (const { conditional, ...update } of chatUpdates) {
+			const existing = updates[update.id!] || (await loadRecord('chats', update.id!))
+			// evaluated against the stored chat, like the event buffer does against the buffered one
+			if (
+				conditional &&
+				!conditional({ ...makeBufferData(), chatUpserts: existing ? { [update.id!]: existing } : {} })
+			) {
+				logger?.debug({ id: update.id }, 'chat update condition not met, skipping')
+				continue
+			}
+
+			if (update.unreadCount && update.unreadCount > 0 && existing) {
+				// unread counts in chat updates are increments
+				update.unreadCount += existing.unreadCount || 0
+			}
+
+			updates[update.id!] = { ...existing, ...update }
+		}
+
+		await driver.set('chats', updates)
+	}
+
+	const upsertContacts = async (contacts: Partial<Contact>[]) => {
+		const updates: { [id: string]: Contact } = {}
+		for (const contact of contacts) {
+			if (!contact.id) {
+				continue
+			}
+
+			const existing = updates[contact.id] || (await loadRecord('contacts', contact.id))
+			updates[contact.id] = { ...existing, ...contact } as Contact
+		}
+
+		await driver.set('contacts', updates)
+	}
+
+	/** apply changes to stored messages, messages not in the store are skipped */
+	const updateMessages = async (keys: WAMessageKey[], update: (msg: WAMessage, index: number) => void) => {
+		const updated: WAMessage[] = []
+		for (const [index, key] of keys.entries()) {
+			const { [key.id!]: msg } = await driver.getMessages(key.remoteJid!, [key.id!])
+			if (msg) {
+				update(msg, index)
+				updated.push(msg)
+			}
+		}
+
+		if (updated.length) {
+			await driver.setMessages(updated)
+		}
+	}
+
+	const handlers: EventHandlers = {
+		'messaging-history.set': async ({ chats, contacts, messages }) => {
+			await upsertChats(chats)
+			await upsertContacts(contacts)
+			await driver.setMessages(messages)
+			for (const listener of historyListeners) {
+				listener(messages)
+			}
+		},
+		'chats.upsert': upsertChats,
+		'chats.update': updateChats,
+		'chats.delete': async ids => {
+			await driver.set('chats', Object.fromEntries(ids.map(id => [id, null])))
+			for (const id of ids) {
+				await driver.deleteMessages(id)
+			}
+		},
+		'contacts.upsert': upsertContacts,
+		'contacts.update': upsertContacts,
+		'creds.update': async ({ me }) => {
+			meId = me?.id || meId
+		},
+		'messages.upsert': async ({ messages }) => {
+			await driver.setMessages(messages)
+		},
+		'messages.update': async updates => {
+			await updateMessages(
+				updates.map(({ key }) => key),
+				(msg, index) => {
+					const update = { ...updates[index]!.update }
+					// never go back in status, receipts may arrive out of order
+					if (update.status && msg.status && update.status <= msg.status) {
+						delete update.status
+					}
+
+					Object.assign(msg, update)
+				}
+			)
+		},
+		'messages.edit-history': async items => {
+			await updateMessages(
+				items.map(({ key }) => key),
+				(msg, index) => {
+					const { revision } = items[index]!
+					const history = msg.editHistory || []
+					if (history.some(({ id }) => id && id === revision.id)) {
+						return
+					}
+
+					// keep the content from before the first change
+					if (!history.length) {
+						history.push({
+							type: 'original',
+							id: msg.key.id || undefined,
+							message: msg.message,
+							timestamp: toNumber(msg.messageTimestamp) * 1000,
+							editor: jidNormalizedUser(getKeyAuthor(msg.key, meId))
+						})
+					}
+
+					history.push(revision)
+					msg.editHistory = history.sort((a, b) => a.timestamp - b.timestamp)
+				}
+			)
+		},
+		'messages.delete': async item => {
+			if ('all' in item) {
+				await driver.deleteMessages(item.jid)
+				return
+			}
+
+			const idsByJid: { [jid: string]: string[] } = {}
+			for (const { remoteJid, id } of item.keys) {
+				idsByJid[remoteJid!] = [...(idsByJid[remoteJid!] || []), id!]
+			}
+
+			for (const [jid, ids] of Object.entries(idsByJid)) {
+				await driver.deleteMessages(jid, ids)
+			}
+		},
+		'messages.reaction': async reactions => {
+			await updateMessages(
+				reactions.map(({ key }) => key),
+				(msg, index) => updateMessageWithReaction(msg, reactions[index]!.reaction)
+			)
+		},
+		'message-receipt.update': async receipts => {
+			await updateMessages(
+				receipts.map(({ key }) => key),
+				(msg, index) => updateMessageWithReceipt(msg, receipts[index]!.receipt)
+			)
+		},
+		'groups.upsert': async groups => {
+			await driver.set('groups', Object.fromEntries(groups.map(group => [group.id, group])))
+		},
+		'groups.update': async updates => {
+			const groups: { [id: string]: GroupMetadata } = {}
+			for (const update of updates) {
+				// partial metadata is of no use when sending, so only update groups we know of
+				const existing = groups[update.id!] || (await loadRecord('groups', update.id!))
+				if (existing) {
+					groups[update.id!] = { ...existing, ...update }
+				}
+			}
+
+			await driver.set('groups', groups)
+		},
+		'group-participants.update': async ({ id, participants, action }) => {
+			const metadata = await loadRecord('groups', id)
+			if (!metadata) {
+				return
+			}
+
+			const ids = new Set(participants.map(p => p.id))
+			let list: GroupParticipant[] = metadata.participants
+			switch (action) {
+				case 'add':
+					list = [...list.filter(p => !ids.has(p.id)), ...participants]
+					break
+				case 'remove':
+					list = list.filter(p => !ids.has(p.id))
+					break
+				case 'promote':
+				case 'demote':
+					list = list.map(p => (ids.has(p.id) ? { ...p, admin: action === 'promote' ? 'admin' : null } : p))
+					break
+				case 'modify':
+					list = list.map(p => ({ ...p, ...participants.find(({ id }) => id === p.id) }))
+					break
+			}
+
+			await driver.set('groups', { [id]: { ...metadata, participants: list, size: list.length } })
+		}
+	}
+
+	return {
+		driver,
+		/**
+		 * listen to the events of a socket, can be called again with a new socket after a reconnect
+		 * @returns function to stop listening
+		 */
+		bind(ev: BaileysEventEmitter) {
+			const listeners = Object.entries(handlers).map(([event, handler]) => {
+				// each handler is keyed by the event it handles
+				const handle = handler as (data: unknown) => Promise<void>
+				const listener = (data: unknown) =>
+					mutex(() => handle(data)).catch(error => logger?.error({ error, event }, 'failed to update message store'))
+				ev.on(event as keyof BaileysEventMap, listener)
+				return [event as keyof BaileysEventMap, listener] as const
+			})
+
+			return () => {
+				for (const [event, listener] of listeners) {
+					ev.off(event, listener)
+				}
+			}
+		},
+		loadMessage,
+		loadMessages,
+		/** pass to `makeWASocket` as `getMessage` */
+		getMessage: async (key: WAMessageKey): Promise<proto.IMessage | undefined> => {
+			const msg =
+				(await loadMessage(key.remoteJid!, key.id!)) ||
+				(key.remoteJidAlt ? await loadMessage(key.remoteJidAlt, key.id!) : undefined)
+			return msg?.message || undefined
+		},
+		/** pass to `makeWASocket` as `cachedGroupMetadata` */
+		cachedGroupMetadata: (jid: string) => mutex(() => loadRecord('groups', jid)),
+		getChat: (jid: string) => mutex(() => loadRecord('chats', jid)),
+		getContact: (jid: string) => mutex(() => loadRecord('contacts', jid))
+	}
+}
+
+export type MessageStore = ReturnType<typeof makeMessageStore>
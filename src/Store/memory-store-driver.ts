@@ -0,0 +1,96 @@
+import type { MessageStoreDriver, MessageStoreRecordMap, WAMessage } from '../Types'
+import { toNumber } from '../Utils/generics'
+
+const compareMessages = (a: WAMessage, b: WAMessage) =>
+	toNumber(a.messageTimestamp) - toNumber(b.messageTimestamp) ||
+	(a.key.id! < b.key.id! ? -1 : a.key.id! > b.key.id! ? 1 : 0)
+
+/**
+ * keeps the message store in memory, the data is lost when the process exits.
+ * Suitable for tests & short lived bots -- storing entire chat histories in memory is a waste of RAM
+ */
+export const makeMemoryStoreDriver = (): MessageStoreDriver => {
+	const messages = new Map<string, Map<string, WAMessage>>()
+	const records: { [T in keyof MessageStoreRecordMap]: Map<string, MessageStoreRecordMap[T]> } = {
+		chats: new Map(),
+		contacts: new Map(),
+		groups: new Map()
+	}
+
+	return {
+		getMessages(jid, ids) {
+			const chat = messages.get(jid)
+			const result: { [id: string]: WAMessage } = {}
+			for (const id of ids) {
+				const msg = chat?.get(id)
+				if (msg) {
+					result[id] = msg
+				}
+			}
+
+			return result
+		},
+		listMessages(jid, count, cursor) {
+			const chat = messages.get(jid)
+			const key = 'before' in cursor ? cursor.before : cursor.after
+			const cursorMsg = key ? chat?.get(key.id!) : undefined
+			if (!chat || (key && !cursorMsg)) {
+				return []
+			}
+
+			const sorted = [...chat.values()].sort(compareMessages)
+			if ('before' in cursor) {
+				const end = cursorMsg ? sorted.indexOf(cursorMsg) : sorted.length
+				return sorted.slice(Math.max(end - count, 0), end)
+			}
+
+			const start = cursorMsg ? sorted.indexOf(cursorMsg) + 1 : 0
+			return sorted.slice(start, start + count)
+		},
+		setMessages(list) {
+			for (const msg of list) {
+				const jid = msg.key.remoteJid!
+				let chat = messages.get(jid)
+				if (!chat) {
+					chat = new Map()
+					messages.set(jid, chat)
+				}
+
+				chat.set(msg.key.id!, msg)
+			}
+		},
+		deleteMessages(jid, ids) {
+			if (!ids) {
+				messages.delete(jid)
+				return
+			}
+
+			const chat = messages.get(jid)
+			for (const id of ids) {
+				chat?.delete(id)
+			}
+		},
+		get(type, ids) {
+			const map = records[type] as Map<string, MessageStoreRecordMap[typeof type]>
+			const result: { [id: string]: MessageStoreRecordMap[typeof type] } = {}
+			for (const id of ids) {
+				const record = map.get(id)
+				if (record) {
+					result[id] = record
+				}
+			}
+
+			return result
+		},
+		set(type, values) {
+			const map = records[type] as Map<string, MessageStoreRecordMap[typeof type]>
+			for (const [id, value] of Object.entries(values)) {
+				if (value) {
+					map.set(id, value)
+				} else {
+					map.delete(id)
+				}
+			}
+		}
+	}
+}
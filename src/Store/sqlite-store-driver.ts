@@ -0,0 +1,163 @@
+import { proto } from '../../WAProto/index.js'
+import type { MessageStoreDriver, MessageStoreRecordMap, WAMessage, WAMessageRevision } from '../Types'
+import { BufferJSON, toNumber } from '../Utils/generics'
+import { openSqliteDatabase } from '../Utils/use-sqlite-auth-state'
+
+// spread the top level objects, so the protobuf "toJSON" does not drop the fields Baileys adds (eg. "key.remoteJidAlt")
+const serializeMessage = (msg: WAMessage) => JSON.stringify({ ...msg, key: { ...msg.key } }, BufferJSON.replacer)
+
+const deserializeMessage = (data: string) => {
+	const parsed = JSON.parse(data, BufferJSON.reviver)
+	const msg = proto.WebMessageInfo.fromObject(parsed) as WAMessage
+	msg.key = parsed.key
+	if (parsed.editHistory) {
+		msg.editHistory = parsed.editHistory.map((revision: WAMessageRevision) => ({
+			...revision,
+			message: revision.message && proto.Message.fromObject(revision.message)
+		}))
+	}
+
+	return msg
+}
+
+/**
+ * keeps the message store in a SQLite database, using the optional `better-sqlite3` peer dependency
+ * @param path file path of the database, or ":memory:"
+ * @returns the driver, with `close` to release the database once the store is unbound
+ */
+export const makeSqliteStoreDriver = async (
+	path: string
+): Promise<MessageStoreDriver & { close: () => Promise<void> }> => {
+	const db = await openSqliteDatabase(path)
+	db.exec(
+		`CREATE TABLE IF NOT EXISTS messages (
+			jid TEXT NOT NULL,
+			id TEXT NOT NULL,
+			timestamp INTEGER NOT NULL,
+			value TEXT NOT NULL,
+			PRIMARY KEY (jid, id)
+		) WITHOUT ROWID;
+		CREATE INDEX IF NOT EXISTS messages_by_timestamp ON messages (jid, timestamp, id);
+		CREATE TABLE IF NOT EXISTS records (
+			type TEXT NOT NULL,
+			id TEXT NOT NULL,
+			value TEXT NOT NULL,
+			PRIMARY KEY (type, id)
+		) WITHOUT ROWID;`
+	)
+
+	const readMessage = db.prepare<[string, string], { value: string }>(
+		'SELECT value FROM messages WHERE jid = ? AND id = ?'
+	)
+	const readMessageTimestamp = db.prepare<[string, string], { timestamp: number }>(
+		'SELECT timestamp FROM messages WHERE jid = ? AND id = ?'
+	)
+	const listLatestMessages = db.prepare<[string, number], { value: string }>(
+		'SELECT value FROM messages WHERE jid = ? ORDER BY timestamp DESC, id DESC LIMIT ?'
+	)
+	const listOldestMessages = db.prepare<[string, number], { value: string }>(
+		'SELECT value FROM messages WHERE jid = ? ORDER BY timestamp, id LIMIT ?'
+	)
+	const listMessagesBefore = db.prepare<[string, number, string, number], { value: string }>(
+		'SELECT value FROM messages WHERE jid = ? AND (timestamp, id) < (?, ?) ORDER BY timestamp DESC, id DESC LIMIT ?'
+	)
+	const listMessagesAfter = db.prepare<[string, number, string, number], { value: string }>(
+		'SELECT value FROM messages WHERE jid = ? AND (timestamp, id) > (?, ?) ORDER BY timestamp, id LIMIT ?'
+	)
+	const writeMessage = db.prepare<[string, string, number, string]>(
+		'INSERT INTO messages (jid, id, timestamp, value) VALUES (?, ?, ?, ?) ' +
+			'ON CONFLICT (jid, id) DO UPDATE SET timestamp = excluded.timestamp, value = excluded.value'
+	)
+	const removeMessage = db.prepare<[string, string]>('DELETE FROM messages WHERE jid = ? AND id = ?')
+	const removeChatMessages = db.prepare<[string]>('DELETE FROM messages WHERE jid = ?')
+	const readRecord = db.prepare<[string, string], { value: string }>(
+		'SELECT value FROM records WHERE type = ? AND id = ?'
+	)
+	const writeRecord = db.prepare<[string, string, string]>(
+		'INSERT INTO records (type, id, value) VALUES (?, ?, ?) ON CONFLICT (type, id) DO UPDATE SET value = excluded.value'
+	)
+	const removeRecord = db.prepare<[string, string]>('DELETE FROM records WHERE type = ? AND id = ?')
+
+	const setMessages = db.transaction((messages: WAMessage[]) => {
+		for (const msg of messages) {
+			writeMessage.run(msg.key.remoteJid!, msg.key.id!, toNumber(msg.messageTimestamp), serializeMessage(msg))
+		}
+	})
+
+	const deleteMessages = db.transaction((jid: string, ids?: string[]) => {
+		if (!ids) {
+			removeChatMessages.run(jid)
+			return
+		}
+
+		for (const id of ids) {
+			removeMessage.run(jid, id)
+		}
+	})
+
+	const setRecords = db.transaction((type: string, records: { [id: string]: unknown }) => {
+		for (const [id, value] of Object.entries(records)) {
+			if (value) {
+				writeRecord.run(type, id, JSON.stringify({ ...value }, BufferJSON.replacer))
+			} else {
+				removeRecord.run(type, id)
+			}
+		}
+	})
+
+	return {
+		getMessages(jid, ids) {
+			const result: { [id: string]: WAMessage } = {}
+			for (const id of ids) {
+				const row = readMessage.get(jid, id)
+				if (row) {
+					result[id] = deserializeMessage(row.value)
+				}
+			}
+
+			return result
+		},
+		listMessages(jid, count, cursor) {
+			const before = 'before' in cursor
+			const key = before ? cursor.before : cursor.after
+			let rows: { value: string }[]
+			if (key) {
+				const row = readMessageTimestamp.get(jid, key.id!)
+				if (!row) {
+					return []
+				}
+
+				rows = (before ? listMessagesBefore : listMessagesAfter).all(jid, row.timestamp, key.id!, count)
+			} else {
+				rows = (before ? listLatestMessages : listOldestMessages).all(jid, count)
+			}
+
+			// "before" queries walk backwards, so flip them to keep the oldest message first
+			const messages = rows.map(({ value }) => deserializeMessage(value))
+			return before ? messages.reverse() : messages
+		},
+		setMessages(messages) {
+			setMessages(messages)
+		},
+		deleteMessages(jid, ids) {
+			deleteMessages(jid, ids)
+		},
+		get(type, ids) {
+			const result: { [id: string]: MessageStoreRecordMap[typeof type] } = {}
+			for (const id of ids) {
+				const row = readRecord.get(type, id)
+				if (row) {
+					result[id] = JSON.parse(row.value, BufferJSON.reviver)
+				}
+			}
+
+			return result
+		},
+		set(type, records) {
+			setRecords(type, records)
+		},
+		close: async () => {
+			db.close()
+		}
+	}
+}
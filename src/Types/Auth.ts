@@ -91,6 +91,8 @@ export type SignalKeyStore = {
 	set(data: SignalDataSet): Awaitable<void>
 	/** clear all the data in the store */
 	clear?(): Awaitable<void>
+	/** list the IDs of all the data stored for a type, required to export the store */
+	list?(type: keyof SignalDataTypeMap): Awaitable<string[]>
 }
 
 export type SignalKeyStoreWithTransaction = SignalKeyStore & {
@@ -112,3 +114,68 @@ export type AuthenticationState = {
 	creds: AuthenticationCreds
 	keys: SignalKeyStore
 }
+
+/** a value encrypted at rest by an `AuthStateCipher` */
+export type EncryptedAuthValue = {
+	alg: 'aes-256-gcm'
+	/** salt the key was derived with, only present for passphrase derived keys */
+	salt?: Buffer
+	iv: Buffer
+	ciphertext: Buffer
+}
+
+export type AuthStateEncryptionOptions =
+	| {
+			/** derive the encryption key from this passphrase using PBKDF2 */
+			passphrase: string
+	  }
+	| {
+			/** KMS-style callback, fetch/unwrap & return the 32 byte data key */
+			getKey: () => Awaitable<Uint8Array>
+	  }
+
+export type AuthStateCipher = {
+	/**
+	 * encrypt any BufferJSON serializable value
+	 * @param context identifies the value (eg. "creds" or "session-123.0"), it is authenticated
+	 * so an encrypted value cannot be moved to a different slot
+	 */
+	encrypt(value: unknown, context: string): Promise<EncryptedAuthValue>
+	decrypt<T = unknown>(value: EncryptedAuthValue, context: string): Promise<T>
+}
+
+export type AuthStateIssueCode =
+	/** essential creds are missing, the account must be paired again */
+	| 'invalid-creds'
+	/** the last generated pre-key (`nextPreKeyId - 1`) is not in the store */
+	| 'missing-current-pre-key'
+	/** pre-keys generated but not uploaded yet are missing from the store */
+	| 'missing-unuploaded-pre-keys'
+	/** pre-keys with IDs the creds never handed out */
+	| 'orphaned-pre-keys'
+	/** app state versions are stored, but the key to decrypt them is not */
+	| 'missing-app-state-sync-key'
+	/** sessions with devices no longer in the user's device list */
+	| 'stale-sessions'
+	/** LID mappings without their reverse mapping, or pointing elsewhere */
+	| 'inconsistent-lid-mappings'
+
+export type AuthStateIssue = {
+	code: AuthStateIssueCode
+	message: string
+	/** IDs of the affected keys, if any */
+	ids?: string[]
+	repaired: boolean
+}
+
+export type AuthStateReport = {
+	/** true if no issues were found */
+	healthy: boolean
+	issues: AuthStateIssue[]
+	/** true if the account cannot be recovered without pairing again */
+	rePairRequired: boolean
+	/** checks that could not run, as the key store does not implement `list` */
+	skippedChecks: AuthStateIssueCode[]
+	/** changes made to the creds during repair, these must still be saved */
+	credsUpdate?: Partial<AuthenticationCreds>
+}
@@ -0,0 +1,38 @@
+import type { AnyMessageContent } from './Message'
+
+export type CampaignRecipientStatus = 'pending' | 'sent' | 'server-ack' | 'delivered' | 'read' | 'failed'
+
+export type CampaignRecipient = {
+	/** phone number or JID, as passed in the recipients */
+	id: string
+	/** JID the message was sent to, once validated */
+	jid?: string
+	status: CampaignRecipientStatus
+	messageId?: string
+	error?: string
+	updatedAt: number
+}
+
+export type CampaignOptions = {
+	/** phone numbers (with country code) or JIDs, each gets their own one-to-one message */
+	recipients: string[]
+	content: AnyMessageContent
+	/**
+	 * changes to the content for a recipient, eg. to add their name.
+	 * Media is uploaded once for all recipients, so only its caption can be changed
+	 */
+	personalise?: (
+		jid: string,
+		recipient: CampaignRecipient
+	) => Partial<AnyMessageContent> | undefined | Promise<Partial<AnyMessageContent> | undefined>
+	/** check the recipients are on WhatsApp before sending, defaults to true */
+	validate?: boolean
+	/** wait a random time between min & max ms after each message, on top of the socket's send rate limit. Defaults to 1-3s */
+	delayMs?: [min: number, max: number]
+	/** called whenever a recipient's status changes */
+	onUpdate?: (recipient: CampaignRecipient, progress: CampaignProgress) => void
+}
+
+export type CampaignState = 'idle' | 'running' | 'paused' | 'completed'
+
+export type CampaignProgress = { state: CampaignState; total: number } & { [S in CampaignRecipientStatus]: number }
@@ -0,0 +1,32 @@
+import type { WAMessageKey } from './Message'
+
+export type EventResponse = 'going' | 'not-going' | 'maybe'
+
+export type EventResponseOptions = {
+	response: EventResponse
+	/** guests coming along, if the event allows them */
+	extraGuestCount?: number
+}
+
+export type EventAttendee = EventResponseOptions & {
+	jid: string
+	/** when the response was sent (ms) */
+	timestampMs: number
+}
+
+/** the responses to an event, only the latest response of each person is kept */
+export type EventAttendees = {
+	/** key of the event message */
+	key: WAMessageKey
+	name: string
+	going: EventAttendee[]
+	notGoing: EventAttendee[]
+	maybe: EventAttendee[]
+	/** people going, including their extra guests */
+	headcount: number
+}
+
+export type EventRsvpUpdate = EventAttendees & {
+	/** the response that changed the attendees, a `response` of undefined means it was withdrawn */
+	attendee: Omit<EventAttendee, 'response'> & { response?: EventResponse }
+}
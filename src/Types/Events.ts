@@ -4,6 +4,7 @@ import type { AuthenticationCreds } from './Auth'
 import type { WACallEvent } from './Call'
 import type { Chat, ChatUpdate, PresenceData } from './Chat'
 import type { Contact } from './Contact'
+import type { EventRsvpUpdate } from './EventResponse'
 import type {
 	GroupMetadata,
 	GroupParticipant,
@@ -13,7 +14,16 @@ import type {
 } from './GroupMetadata'
 import type { Label } from './Label'
 import type { LabelAssociation } from './LabelAssociation'
-import type { MessageUpsertType, MessageUserReceiptUpdate, WAMessage, WAMessageKey, WAMessageUpdate } from './Message'
+import type {
+	MessageUpsertType,
+	MessageUserReceiptUpdate,
+	WAMessage,
+	WAMessageKey,
+	WAMessageRevision,
+	WAMessageUpdate
+} from './Message'
+import type { PollTally } from './Poll'
+import type { ScheduledMessage } from './ScheduledMessage'
 import type { ConnectionState } from './State'
 
 // TODO: refactor this mess
@@ -47,6 +57,8 @@ export type BaileysEventMap = {
 
 	'messages.delete': { keys: WAMessageKey[] } | { jid: string; all: true }
 	'messages.update': WAMessageUpdate[]
+	/** a message was edited or deleted, with the new revision. Emitted before the `messages.update` of the change */
+	'messages.edit-history': { key: WAMessageKey; revision: WAMessageRevision }[]
 	'messages.media-update': { key: WAMessageKey; media?: { ciphertext: Uint8Array; iv: Uint8Array }; error?: Boom }[]
 	/**
 	 * add/update the given messages. If they were received while the connection was online,
@@ -58,6 +70,12 @@ export type BaileysEventMap = {
 	'messages.reaction': { key: WAMessageKey; reaction: proto.IReaction }[]
 
 	'message-receipt.update': MessageUserReceiptUpdate[]
+	/** a message scheduled with `scheduleMessage` was scheduled, rescheduled, sent, failed or cancelled */
+	'scheduled-messages.update': ScheduledMessage[]
+	/** the results of a poll changed, after a vote was received */
+	'poll.tally': PollTally
+	/** someone responded to an event (going, not going or maybe) */
+	'events.rsvp': EventRsvpUpdate
 
 	'groups.upsert': GroupMetadata[]
 	'groups.update': Partial<GroupMetadata>[]
@@ -116,6 +134,7 @@ export type BufferedEventData = {
 	contactUpdates: { [jid: string]: Partial<Contact> }
 	messageUpserts: { [key: string]: { type: MessageUpsertType; message: WAMessage } }
 	messageUpdates: { [key: string]: WAMessageUpdate }
+	messageEditHistory: { key: WAMessageKey; revision: WAMessageRevision }[]
 	messageDeletes: { [key: string]: WAMessageKey }
 	messageReactions: { [key: string]: { key: WAMessageKey; reactions: proto.IReaction[] } }
 	messageReceipts: { [key: string]: { key: WAMessageKey; userReceipt: proto.IUserReceipt[] } }
@@ -124,9 +143,50 @@ export type BufferedEventData = {
 
 export type BaileysEvent = keyof BaileysEventMap
 
+export type EventIteratorOptions<T extends BaileysEvent> = {
+	/** stops the iteration when aborted */
+	signal?: AbortSignal
+	/** only yield the events this returns true for */
+	filter?: (arg: BaileysEventMap[T]) => boolean
+	/**
+	 * max number of events queued for a slow consumer,
+	 * once exceeded the iterator throws after yielding the queued events. Unbounded by default
+	 */
+	highWaterMark?: number
+}
+
+export type WaitForEventOptions<T extends BaileysEvent> = {
+	/** resolve on the first event this returns true for, defaults to the first event */
+	filter?: (arg: BaileysEventMap[T]) => boolean | undefined | Promise<boolean | undefined>
+	timeoutMs?: number
+	/** rejects with the abort reason when aborted */
+	signal?: AbortSignal
+}
+
+/**
+ * receives every event before the listeners do.
+ * Call `next` to pass the event on -- with new data to transform it, multiple times to split it,
+ * or not at all to suppress it. Calling `next()` without data passes on the (possibly mutated) original
+ */
+export type BaileysEventMiddleware = (
+	...args: {
+		[E in BaileysEvent]: [event: E, data: BaileysEventMap[E], next: (data?: BaileysEventMap[E]) => Promise<void>]
+	}[BaileysEvent]
+) => void | Promise<void>
+
 export interface BaileysEventEmitter {
 	on<T extends keyof BaileysEventMap>(event: T, listener: (arg: BaileysEventMap[T]) => void): void
 	off<T extends keyof BaileysEventMap>(event: T, listener: (arg: BaileysEventMap[T]) => void): void
 	removeAllListeners<T extends keyof BaileysEventMap>(event: T): void
 	emit<T extends keyof BaileysEventMap>(event: T, arg: BaileysEventMap[T]): boolean
+	/**
+	 * iterate over the data of an event, in the order it was emitted.
+	 * Events are queued till the consumer asks for them, and iteration ends once the connection closes
+	 */
+	iterate<T extends keyof BaileysEventMap>(
+		event: T,
+		options?: EventIteratorOptions<T>
+	): AsyncIterableIterator<BaileysEventMap[T]>
+	/** wait for the next matching event, rejects if the connection closes or the timeout is reached */
+	once<T extends keyof BaileysEventMap>(event: T, options?: WaitForEventOptions<T>): Promise<BaileysEventMap[T]>
 }
@@ -0,0 +1,97 @@
+import type { WAMediaUpload, WASendableProduct } from './Message'
+
+/** a native flow button, rendered under the body of the message */
+export type InteractiveButton =
+	| {
+			/** replies with the ID & text of the button */
+			type: 'reply'
+			id: string
+			text: string
+	  }
+	| {
+			type: 'url'
+			text: string
+			url: string
+			/** the URL of the merchant, defaults to the URL */
+			merchantUrl?: string
+	  }
+	| {
+			type: 'call'
+			text: string
+			phoneNumber: string
+	  }
+	| {
+			/** copies the code to the clipboard */
+			type: 'copy'
+			text: string
+			code: string
+	  }
+
+export type InteractiveHeaderMedia =
+	{ image: WAMediaUpload } | { video: WAMediaUpload } | { document: WAMediaUpload; mimetype: string; fileName?: string }
+
+export type InteractiveHeader = {
+	title?: string
+	subtitle?: string
+	/** shown above the body, uploaded when the message is generated */
+	media?: InteractiveHeaderMedia
+}
+
+export type InteractiveListRow = {
+	id: string
+	title: string
+	description?: string
+}
+
+export type InteractiveListSection = {
+	title?: string
+	rows: InteractiveListRow[]
+}
+
+export type InteractiveList = {
+	/** text of the button that opens the list */
+	buttonText: string
+	sections: InteractiveListSection[]
+}
+
+/** a card of a carousel, all cards must have the same kind of header & the same number of buttons */
+export type InteractiveCard = {
+	header: { title?: string; media: { image: WAMediaUpload } | { video: WAMediaUpload } } | InteractiveProductHeader
+	body?: string
+	footer?: string
+	buttons: InteractiveButton[]
+}
+
+export type InteractiveProductHeader = {
+	product: WASendableProduct
+	businessOwnerJid: string
+}
+
+export type InteractiveContent = {
+	body: string
+	footer?: string
+} & (
+	| { header?: InteractiveHeader; buttons: InteractiveButton[] }
+	| { header?: InteractiveHeader; list: InteractiveList }
+	| { cards: InteractiveCard[] }
+)
+
+/** a reply to an interactive message */
+export type InteractiveResponse =
+	| {
+			type: 'button'
+			id: string
+			text?: string
+	  }
+	| {
+			type: 'list'
+			id: string
+			title?: string
+			description?: string
+	  }
+	| {
+			/** any other native flow, eg. a form */
+			type: 'native-flow'
+			name: string
+			params: { [key: string]: unknown }
+	  }
@@ -5,11 +5,17 @@ import { proto } from '../../WAProto/index.js'
 import type { MediaType } from '../Defaults'
 import type { BinaryNode } from '../WABinary'
 import type { GroupMetadata } from './GroupMetadata'
+import type { InteractiveContent } from './Interactive'
 import type { CacheStore } from './Socket'
 
 // export the WAMessage Prototypes
 export { proto as WAProto }
-export type WAMessage = proto.IWebMessageInfo & { key: WAMessageKey; messageStubParameters?: any }
+export type WAMessage = proto.IWebMessageInfo & {
+	key: WAMessageKey
+	messageStubParameters?: any
+	/** revisions of the message, oldest first. Kept by the message store as edits & deletes are received */
+	editHistory?: WAMessageRevision[]
+}
 export type WAMessageContent = proto.IMessage
 export type WAContactMessage = proto.Message.IContactMessage
 export type WAContactsArrayMessage = proto.Message.IContactsArrayMessage
@@ -81,6 +87,14 @@ export type MessageWithContextInfo =
 	| 'messageHistoryNotice'
 
 export type DownloadableMessage = { mediaKey?: Uint8Array | null; directPath?: string | null; url?: string | null }
+/** media with the hashes to verify it with, once downloaded */
+export type VerifiableDownloadableMessage = DownloadableMessage & {
+	fileSha256?: Uint8Array | null
+	fileEncSha256?: Uint8Array | null
+}
+
+/** the check that failed, for media that failed verification: its MAC, or the hash of the encrypted or decrypted file */
+export type MediaIntegrityCheck = 'mac' | 'file-enc-sha256' | 'file-sha256'
 
 export type MessageReceiptType =
 	| 'read'
@@ -214,6 +228,9 @@ export type AnyMediaMessageContent = (
     } & Contextable & Buttonable & Templatable))
     & { mimetype?: string } & Editable
 
+/** an image or video in an album */
+export type AlbumMediaContent = Extract<AnyMediaMessageContent, { image: WAMediaUpload } | { video: WAMediaUpload }>
+
 export type ButtonReplyInfo = {
 	displayText: string
 	id: string
@@ -298,12 +315,20 @@ export type AnyMessageContent =
 	| {
 			interactiveMessage: proto.Message.IInteractiveMessage
 	  }
+	| {
+			/** reply buttons, call to action buttons, a list or a carousel, validated & built into an `interactiveMessage` */
+			interactive: InteractiveContent
+	  }
 	| {
 			event: EventMessageOptions
 	  }
 	| {
 			limitSharing: boolean
 	  }
+	| {
+			/** images & videos to send grouped as an album, at least 2 */
+			album: AlbumMediaContent[]
+	  }
 
 export type GroupMetadataParticipants = Pick<GroupMetadata, 'participants'>
 
@@ -335,6 +360,10 @@ export type MiscMessageGenerationOptions = MinimalRelayOptions & {
 	ephemeralExpiration?: number | string
 	/** timeout for media upload to WA server */
 	mediaUploadTimeoutMs?: number
+	/** called as media is uploaded to WA server */
+	onUploadProgress?: (progress: MediaUploadProgress) => void
+	/** overrides the `transformVideo` config for the videos of this message */
+	transformVideo?: boolean | VideoTransformOptions
 	/** jid list of participants for status@broadcast */
 	statusJidList?: string[]
 	/** backgroundcolor for status */
@@ -348,19 +377,80 @@ export type MessageGenerationOptionsFromContent = MiscMessageGenerationOptions &
 	userJid: string
 }
 
+/** progress of a media upload, `uploaded` restarts from where the host left off when an upload is resumed */
+export type MediaUploadProgress = {
+	/** bytes of the encrypted file uploaded */
+	uploaded: number
+	total: number
+	hostname: string
+}
+
 export type WAMediaUploadFunction = (
 	encFilePath: string,
-	opts: { fileEncSha256B64: string; mediaType: MediaType; timeoutMs?: number }
+	opts: {
+		fileEncSha256B64: string
+		mediaType: MediaType
+		timeoutMs?: number
+		onProgress?: (progress: MediaUploadProgress) => void
+	}
 ) => Promise<{ mediaUrl: string; directPath: string; meta_hmac?: string; ts?: number; fbid?: number }>
 
+/** a media upload kept in the `mediaUploadCache`, reused to send media with the same content */
+export type CachedMediaUpload = {
+	url: string
+	directPath: string
+	mediaKey: Uint8Array
+	mediaKeyTimestamp: number
+	fileEncSha256: Uint8Array
+	fileSha256: Uint8Array
+	fileLength: number
+	/** base64 */
+	jpegThumbnail?: string
+	width?: number
+	height?: number
+	seconds?: number
+	waveform?: Uint8Array
+	/** when the media may no longer be on WA's servers (ms) */
+	expiresAt: number
+}
+
+/** limits videos are transcoded within, when `transformVideo` is enabled */
+export type VideoTransformOptions = {
+	/** largest file to send, defaults to 100MB */
+	maxBytes?: number
+	/** largest width or height, defaults to 1280 */
+	maxDimension?: number
+}
+
+/** codec, duration & dimensions of a video, read with ffprobe */
+export type VideoProbe = {
+	/** eg. `mov,mp4,m4a,3gp,3g2,mj2` */
+	container: string
+	videoCodec: string
+	/** undefined if the video has no audio */
+	audioCodec?: string
+	pixelFormat?: string
+	seconds: number
+	/** as displayed, ie. swapped for rotated videos */
+	width: number
+	height: number
+	fileLength: number
+}
+
 export type MediaGenerationOptions = {
 	logger?: ILogger
 	mediaTypeOverride?: MediaType
 	upload: WAMediaUploadFunction
 	/** cache media so it does not have to be uploaded again */
 	mediaCache?: CacheStore
+	/** cache uploads by the SHA-256 of the media, so files with the same content are not encrypted & uploaded again */
+	mediaUploadCache?: CacheStore
+	/** how long uploads are reused for, capped by how long WA keeps media; defaults to 7 days */
+	mediaUploadCacheTtlMs?: number
 
 	mediaUploadTimeoutMs?: number
+	/** called as the media is uploaded */
+	onUploadProgress?: (progress: MediaUploadProgress) => void
 
 	options?: AxiosRequestConfig
 
@@ -370,6 +460,11 @@ export type MediaGenerationOptions = {
 
 	/** Enable automatic audio transformation to PTT format for WhatsApp compatibility */
 	transformAudio?: boolean
+	/**
+	 * probe videos for their duration & dimensions, & transcode the ones WA can't play to H.264/AAC MP4.
+	 * Video notes are also cropped to a square
+	 */
+	transformVideo?: boolean | VideoTransformOptions
 }
 export type MessageContentGenerationOptions = MediaGenerationOptions & {
 	getUrlInfo?: (text: string) => Promise<WAUrlInfo | undefined>
@@ -400,4 +495,40 @@ export type MediaDecryptionKeyInfo = {
 	macKey?: Buffer
 }
 
+/** result of asking the phone to re-upload expired media */
+export type MediaRetryResult = 'success' | 'not-found' | 'decryption-error' | 'general-error'
+
+/** a revision of a message: its original content, an edit or a delete */
+export type WAMessageRevision = {
+	type: 'original' | 'edit' | 'revoke'
+	/** ID of the protocol message that edited or deleted the message */
+	id?: string
+	/** content of the revision, not set for deletes */
+	message?: proto.IMessage | null
+	/** when the revision was made (ms) */
+	timestamp: number
+	/** JID of who made the revision, a LID in LID addressed groups */
+	editor: string
+	/** the other JID of the editor (PN for a LID), if known */
+	editorAlt?: string
+}
+
+/** the album message, with the messages of its items */
+export type WAAlbumMessage = WAMessage & { albumItems: WAMessage[] }
+
 export type MinimalMessage = Pick<WAMessage, 'key' | 'messageTimestamp'>
+
+/** how far a sent message got, each status implies the ones before it */
+export type MessageDeliveryStatus = 'server-ack' | 'delivered' | 'read' | 'played'
+
+export type MessageDeliveryWaitOptions = {
+	/** reject with a "Timed Out" error if the status isn't reached in time */
+	timeoutMs?: number
+}
+
+/** `data` of the error a delivery is rejected with, when WA acks the message with an error */
+export type MessageDeliveryErrorData = {
+	key: WAMessageKey
+	/** error code from the ack, eg. 463 or 479 */
+	code: number
+}
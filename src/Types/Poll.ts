@@ -0,0 +1,24 @@
+import type { WAMessageKey } from './Message'
+
+export type PollTallyOption = {
+	name: string
+	/** JIDs of the voters that selected the option */
+	voters: string[]
+}
+
+/** the live results of a poll */
+export type PollTally = {
+	/** key of the poll creation message */
+	key: WAMessageKey
+	name: string
+	options: PollTallyOption[]
+	/** latest selected option names of each voter, voters that removed their vote are not included */
+	votes: { [voter: string]: string[] }
+	/** votes after this time (ms) are ignored */
+	closesAt?: number
+}
+
+export type TrackPollOptions = {
+	/** ignore votes cast after this time */
+	closesAt?: Date | number
+}
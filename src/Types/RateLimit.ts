@@ -0,0 +1,43 @@
+/** a token bucket, allowing `limit` sends per `intervalMs` -- refilled continuously */
+export type RateLimitBudget = {
+	limit: number
+	intervalMs: number
+}
+
+export type SendRateLimitConfig = {
+	/** budget for all messages sent */
+	global?: RateLimitBudget
+	/** budget for the messages sent to each chat */
+	perJid?: RateLimitBudget
+	/** budget for messages sent to contacts that haven't been messaged before */
+	newContacts?: RateLimitBudget
+	/**
+	 * whether the contact hasn't been messaged before, not called for contacts messaged since the socket started.
+	 * The socket defaults to contacts there's no signal session with, which are kept in the auth state across restarts
+	 */
+	isNewContact?: (jid: string) => boolean | Promise<boolean>
+	/** wait a random time between min & max ms before each send */
+	jitterMs?: [min: number, max: number]
+	/** error codes in message acks that pause sending, defaults to the `RATE_LIMIT_ERROR_CODES` (429 & 463) */
+	pauseOnErrorCodes?: number[]
+	/** how long to pause sending for, after such an error. Defaults to 10m */
+	pauseMs?: number
+}
+
+export type RateLimitBudgetState = RateLimitBudget & {
+	/** sends available right now */
+	tokens: number
+}
+
+export type SendRateLimitState = {
+	/** sends waiting for their turn */
+	queued: number
+	/** when sending resumes, if paused */
+	pausedUntil?: number
+	/** the error code that paused sending */
+	pauseReason?: number
+	global?: RateLimitBudgetState
+	newContacts?: RateLimitBudgetState
+	/** budgets of the chats recently sent to */
+	perJid: { [jid: string]: RateLimitBudgetState }
+}
@@ -0,0 +1,43 @@
+import type { AnyMessageContent, MiscMessageGenerationOptions, WAMessageKey } from './Message'
+
+type Awaitable<T> = T | Promise<T>
+
+export type ScheduledMessageStatus = 'pending' | 'sent' | 'failed' | 'cancelled'
+
+export type ScheduledMessage = {
+	id: string
+	jid: string
+	/** must be serializable, so media should be a Buffer or URL -- not a stream */
+	content: AnyMessageContent
+	options?: MiscMessageGenerationOptions
+	/** when to send the message, in ms since epoch */
+	at: number
+	status: ScheduledMessageStatus
+	createdAt: number
+	/** key of the message, once sent */
+	messageKey?: WAMessageKey
+	/** why the message failed */
+	error?: string
+}
+
+export type ScheduleMessageOptions = {
+	at: Date | number
+	options?: MiscMessageGenerationOptions
+}
+
+/**
+ * what to do with messages that were already due when the process started, eg. after downtime.
+ * Messages that come due during a reconnect are always sent.
+ * "send" sends them right away, "skip" fails them --
+ * or pass a function that returns the new time to send at, or undefined to skip
+ */
+export type MissedScheduledMessagePolicy = 'send' | 'skip' | ((message: ScheduledMessage) => number | undefined)
+
+/** persists scheduled messages, so they survive restarts */
+export type ScheduledMessageStore = {
+	get(id: string): Awaitable<ScheduledMessage | undefined>
+	/** all messages still pending */
+	listPending(): Awaitable<ScheduledMessage[]>
+	/** insert or replace the message, messages that are no longer pending may be dropped */
+	save(message: ScheduledMessage): Awaitable<void>
+}
@@ -5,7 +5,9 @@ import { proto } from '../../WAProto/index.js'
 import type { ILogger } from '../Utils/logger'
 import type { AuthenticationState, LIDMapping, SignalAuthState, TransactionCapabilityOptions } from './Auth'
 import type { GroupMetadata } from './GroupMetadata'
-import { type MediaConnInfo, type WAMessageKey } from './Message'
+import { type MediaConnInfo, type VideoTransformOptions, type WAMessageKey } from './Message'
+import type { SendRateLimitConfig } from './RateLimit'
+import type { MissedScheduledMessagePolicy, ScheduledMessageStore } from './ScheduledMessage'
 import type { SignalRepositoryWithLIDStore } from './Signal'
 
 export type WAVersion = [number, number, number]
@@ -65,6 +67,8 @@ export type SocketConfig = {
 	retryRequestDelayMs: number
 	/** max retry count */
 	maxMsgRetryCount: number
+	/** time to wait for the phone to re-upload expired media, when downloading it with `sock.downloadMediaMessage` */
+	mediaRetryTimeoutMs: number
 	/** time to wait for the generation of the next QR in ms */
 	qrTimeout?: number
 	/** provide an auth state object to maintain the auth state */
@@ -79,6 +83,10 @@ export type SocketConfig = {
 	countryCode: string
 	/** provide a cache to store media, so does not have to be re-uploaded */
 	mediaCache?: CacheStore
+	/** cache uploads by the SHA-256 of the media, so files with the same content are not encrypted & uploaded again */
+	mediaUploadCache?: CacheStore
+	/** how long uploads in the `mediaUploadCache` are reused for, capped by how long WA keeps media; defaults to 7 days */
+	mediaUploadCacheTtlMs?: number
 	/**
 	 * map to store the retry counts for failed messages;
 	 * used to determine whether to retry a message or not */
@@ -87,6 +95,8 @@ export type SocketConfig = {
 	userDevicesCache?: PossiblyExtendedCacheStore
 	/** cache to store call offers */
 	transformAudio?: boolean
+	/** probe & transcode videos WA can't play before sending them, disabled by default */
+	transformVideo?: boolean | VideoTransformOptions
 	/** cache to store call offers */
 	callOfferCache?: CacheStore
 	/** cache to track placeholder resends */
@@ -151,6 +161,13 @@ export type SocketConfig = {
 		pnToLIDFunc?: (jids: string[]) => Promise<LIDMapping[] | undefined>
 	) => SignalRepositoryWithLIDStore
 
+	/** where to keep the messages scheduled with `scheduleMessage`, defaults to memory */
+	scheduledMessageStore?: ScheduledMessageStore
+	/** what to do with scheduled messages that were already due when the process started, defaults to "send" */
+	missedScheduledMessagePolicy?: MissedScheduledMessagePolicy
+	/** pace outgoing messages, disabled by default */
+	sendRateLimit?: SendRateLimitConfig
+
 	/** 🆕 Habilita compatibilidade de envio em grupo "estilo v6" (lazy assert + fallback relay) */
 	compatV6GroupSend?: boolean
 	
@@ -0,0 +1,39 @@
+import type { AnyMediaMessageContent, WAMediaUpload, WAMessage, WAMessageKey } from './Message'
+
+/** a text, image, video or voice status */
+export type StatusContent =
+	| { text: string }
+	| Extract<AnyMediaMessageContent, { image: WAMediaUpload } | { video: WAMediaUpload } | { audio: WAMediaUpload }>
+
+/**
+ * who can see a status
+ * - 'contacts': all contacts
+ * - allow: only these contacts
+ * - exclude: all contacts, except these
+ */
+export type StatusAudience = 'contacts' | { allow: string[] } | { exclude: string[] }
+
+export type SendStatusOptions = {
+	/** defaults to all contacts */
+	audience?: StatusAudience
+	/**
+	 * JIDs of all contacts, used for the 'contacts' & exclude audiences.
+	 * Defaults to the contacts received on the socket, which may be incomplete if history sync was not received
+	 */
+	contacts?: string[]
+	/** background colour of text & voice statuses, eg. '#1b5e20' */
+	backgroundColor?: string
+	/** font of text statuses */
+	font?: number
+	/** the status is sent to this many contacts at a time, each chunk as its own message. Defaults to 500 */
+	chunkSize?: number
+}
+
+/** a message the status was sent as, with the JIDs it was sent to */
+export type WAStatusChunk = { key: WAMessageKey; statusJidList: string[] }
+
+/**
+ * the sent status, with all the JIDs it was sent to.
+ * Large audiences are sent to as several messages, delete them all with `sock.deleteStatus`
+ */
+export type WAStatusMessage = WAMessage & { statusJidList: string[]; chunks: WAStatusChunk[] }
@@ -0,0 +1,40 @@
+import type { Chat } from './Chat'
+import type { Contact } from './Contact'
+import type { GroupMetadata } from './GroupMetadata'
+import type { WAMessage, WAMessageCursor } from './Message'
+
+type Awaitable<T> = T | Promise<T>
+
+/** records, other than messages, kept by the message store */
+export type MessageStoreRecordMap = {
+	chats: Chat
+	contacts: Contact
+	groups: GroupMetadata
+}
+
+/**
+ * Storage used by `makeMessageStore`.
+ * Messages are identified by their chat & message ID, every other record by its JID
+ */
+export type MessageStoreDriver = {
+	getMessages(jid: string, ids: string[]): Awaitable<{ [id: string]: WAMessage }>
+	/**
+	 * list up to `count` messages of a chat, ordered by timestamp (oldest first).
+	 * Without a cursor key, the latest messages are returned for "before" & the oldest for "after";
+	 * if the cursor message is not stored, nothing is returned
+	 */
+	listMessages(jid: string, count: number, cursor: WAMessageCursor): Awaitable<WAMessage[]>
+	/** insert or replace the given messages */
+	setMessages(messages: WAMessage[]): Awaitable<void>
+	/** delete the given messages of a chat, or all of them if no IDs are given */
+	deleteMessages(jid: string, ids?: string[]): Awaitable<void>
+	get<T extends keyof MessageStoreRecordMap>(
+		type: T,
+		ids: string[]
+	): Awaitable<{ [id: string]: MessageStoreRecordMap[T] }>
+	/** insert or replace the given records, a null value deletes the record */
+	set<T extends keyof MessageStoreRecordMap>(
+		type: T,
+		records: { [id: string]: MessageStoreRecordMap[T] | null }
+	): Awaitable<void>
+}
@@ -10,6 +10,14 @@ export * from './Product'
 export * from './Call'
 export * from './Signal'
 export * from './Newsletter'
+export * from './Store'
+export * from './ScheduledMessage'
+export * from './RateLimit'
+export * from './Campaign'
+export * from './Status'
+export * from './Poll'
+export * from './EventResponse'
+export * from './Interactive'
 
 import type { AuthenticationState } from './Auth'
 import type { SocketConfig } from './Socket'
@@ -0,0 +1,164 @@
+import { Boom } from '@hapi/boom'
+import { randomBytes } from 'crypto'
+import { proto } from '../../WAProto/index.js'
+import type {
+	AuthenticationCreds,
+	AuthStateCipher,
+	AuthStateEncryptionOptions,
+	EncryptedAuthValue,
+	SignalDataTypeMap,
+	SignalKeyStore
+} from '../Types'
+import { aesDecryptGCM, aesEncryptGCM, pbkdf2 } from './crypto'
+import { BufferJSON } from './generics'
+
+const PASSPHRASE_ITERATIONS = 2 << 16
+const CREDS_CONTEXT = 'creds'
+/** keys cached per cipher, one per salt -- values written by another passphrase cipher have a salt of their own */
+const MAX_CACHED_KEYS = 16
+
+export const isEncryptedAuthValue = (value: unknown): value is EncryptedAuthValue =>
+	!!value &&
+	typeof value === 'object' &&
+	(value as EncryptedAuthValue).alg === 'aes-256-gcm' &&
+	Buffer.isBuffer((value as EncryptedAuthValue).iv) &&
+	Buffer.isBuffer((value as EncryptedAuthValue).ciphertext)
+
+/**
+ * Creates a cipher to encrypt auth state values at rest with AES-256-GCM.
+ * The key is either derived from a passphrase (a random salt is generated per cipher & stored alongside
+ * every value) or fetched once from the supplied callback
+ */
+export const makeAuthStateCipher = (options: AuthStateEncryptionOptions): AuthStateCipher => {
+	const writeSalt = 'passphrase' in options ? randomBytes(16) : undefined
+	const keys = new Map<string, Promise<Buffer>>()
+
+	const getKey = (salt: Buffer | undefined) => {
+		const cacheKey = salt?.toString('base64') || ''
+		let key = keys.get(cacheKey)
+		if (!key) {
+			if ('passphrase' in options) {
+				if (!salt) {
+					throw new Boom('Value was not encrypted with a passphrase', { statusCode: 400 })
+				}
+
+				key = pbkdf2(options.passphrase, salt, PASSPHRASE_ITERATIONS)
+			} else {
+				key = Promise.resolve(options.getKey()).then(key => {
+					if (key.length !== 32) {
+						throw new Boom(`Expected a 32 byte key, got ${key.length} bytes`, { statusCode: 400 })
+					}
+
+					return Buffer.from(key)
+				})
+			}
+
+			// do not cache a failed fetch, so a transient KMS error can be retried
+			key.catch(() => keys.delete(cacheKey))
+			keys.set(cacheKey, key)
+			if (keys.size > MAX_CACHED_KEYS) {
+				keys.delete(keys.keys().next().value!)
+			}
+		}
+
+		return key
+	}
+
+	return {
+		async encrypt(value, context) {
+			const key = await getKey(writeSalt)
+			const iv = randomBytes(12)
+			const plaintext = Buffer.from(JSON.stringify(value, BufferJSON.replacer))
+			return {
+				alg: 'aes-256-gcm',
+				salt: writeSalt,
+				iv,
+				ciphertext: aesEncryptGCM(plaintext, key, iv, Buffer.from(context))
+			}
+		},
+		async decrypt(value, context) {
+			const key = await getKey(value.salt)
+			let plaintext: Buffer
+			try {
+				plaintext = aesDecryptGCM(value.ciphertext, key, value.iv, Buffer.from(context))
+			} catch (error) {
+				throw new Boom('Failed to decrypt auth state value, wrong key or tampered data', {
+					statusCode: 401,
+					data: { context }
+				})
+			}
+
+			return JSON.parse(plaintext.toString(), BufferJSON.reviver)
+		}
+	}
+}
+
+/** encrypt the creds, store the result in place of the plaintext creds */
+export const encryptAuthCreds = (creds: AuthenticationCreds, cipher: AuthStateCipher) =>
+	cipher.encrypt(creds, CREDS_CONTEXT)
+
+/**
+ * decrypt creds stored by `encryptAuthCreds`.
+ * Plaintext creds are returned as is -- so existing sessions can be migrated by simply saving them again
+ */
+export const decryptAuthCreds = async (
+	stored: EncryptedAuthValue | AuthenticationCreds,
+	cipher: AuthStateCipher
+): Promise<AuthenticationCreds> => {
+	if (isEncryptedAuthValue(stored)) {
+		return cipher.decrypt<AuthenticationCreds>(stored, CREDS_CONTEXT)
+	}
+
+	return stored
+}
+
+/**
+ * Adds encryption at rest to a SignalKeyStore, every value is encrypted before being handed to the store.
+ * The underlying store must persist values verbatim (eg. with BufferJSON), as the built-in auth states do.
+ * Values stored in plaintext before encryption was enabled are still read & get encrypted on their next write
+ * @param store the store to encrypt
+ * @param cipher cipher from `makeAuthStateCipher`
+ */
+export function makeEncryptedSignalKeyStore(store: SignalKeyStore, cipher: AuthStateCipher): SignalKeyStore {
+	return {
+		async get(type, ids) {
+			const stored = await store.get(type, ids)
+			const data: { [_: string]: SignalDataTypeMap[typeof type] } = {}
+			await Promise.all(
+				Object.entries(stored).map(async ([id, value]) => {
+					if (!isEncryptedAuthValue(value)) {
+						data[id] = value
+						return
+					}
+
+					let decrypted = await cipher.decrypt(value, `${type}-${id}`)
+					if (type === 'app-state-sync-key' && decrypted) {
+						decrypted = proto.Message.AppStateSyncKeyData.fromObject(decrypted)
+					}
+
+					data[id] = decrypted as SignalDataTypeMap[typeof type]
+				})
+			)
+
+			return data
+		},
+		async set(data) {
+			const encrypted: { [_: string]: { [id: string]: EncryptedAuthValue | null } } = {}
+			await Promise.all(
+				Object.entries(data).flatMap(([type, values]) => {
+					const typeEncrypted: { [id: string]: EncryptedAuthValue | null } = {}
+					encrypted[type] = typeEncrypted
+					return Object.entries(values).map(async ([id, value]) => {
+						typeEncrypted[id] = value ? await cipher.encrypt(value, `${type}-${id}`) : null
+					})
+				})
+			)
+
+			await store.set(encrypted)
+		},
+		async clear() {
+			await store.clear?.()
+		},
+		list: store.list?.bind(store)
+	}
+}
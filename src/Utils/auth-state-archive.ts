@@ -0,0 +1,199 @@
+import { Boom } from '@hapi/boom'
+import { createHash } from 'crypto'
+import { createInterface } from 'readline'
+import { Readable } from 'stream'
+import { SIGNAL_DATA_TYPES } from '../Defaults'
+import type { AuthenticationCreds, AuthenticationState } from '../Types'
+import { BufferJSON } from './generics'
+
+/** version of the archive format written by `exportAuthState` */
+export const AUTH_STATE_ARCHIVE_VERSION = 1
+
+type AuthStateArchiveLine =
+	| { kind: 'header'; version: number; createdAt: number }
+	| { kind: 'creds'; value: string; sha256: string }
+	| { kind: 'key'; category: string; id: string; value: string; sha256: string }
+	| { kind: 'footer'; entries: number }
+
+export type AuthStateArchiveOptions = {
+	/** number of keys read from/written to the store at once */
+	batchSize?: number
+}
+
+export type AuthStateImportResult = {
+	/** number of keys imported per category */
+	keys: { [category: string]: number }
+	createdAt: number
+}
+
+const DEFAULT_BATCH_SIZE = 100
+
+const checksum = (value: string) => createHash('sha256').update(value).digest('hex')
+
+const encodeLine = (line: AuthStateArchiveLine) => JSON.stringify(line) + '\n'
+
+const verifyChecksum = ({ value, sha256 }: { value: string; sha256: string }, lineNo: number) => {
+	if (checksum(value) !== sha256) {
+		throw new Boom('Checksum mismatch in auth state archive', { statusCode: 400, data: { lineNo } })
+	}
+}
+
+/**
+ * Streams the creds & every key in the store as a portable, versioned archive.
+ * The archive is newline delimited JSON: a header, the creds, every key & a footer with the entry count.
+ * Each entry carries the SHA-256 of its value.
+ *
+ * Note: values are exported in plaintext, even if read from an encrypted store
+ * @param state auth state to export, its key store must implement `list`
+ * @example pipeline(Readable.from(exportAuthState(state)), createGzip(), createWriteStream('auth.ndjson.gz'))
+ */
+export async function* exportAuthState(
+	state: AuthenticationState,
+	{ batchSize = DEFAULT_BATCH_SIZE }: AuthStateArchiveOptions = {}
+): AsyncGenerator<string> {
+	const { keys } = state
+	if (!keys.list) {
+		throw new Boom('Key store does not support listing its keys, cannot export it', { statusCode: 400 })
+	}
+
+	yield encodeLine({ kind: 'header', version: AUTH_STATE_ARCHIVE_VERSION, createdAt: Date.now() })
+
+	const creds = JSON.stringify(state.creds, BufferJSON.replacer)
+	yield encodeLine({ kind: 'creds', value: creds, sha256: checksum(creds) })
+
+	let entries = 1
+	for (const category of SIGNAL_DATA_TYPES) {
+		const ids = await keys.list(category)
+		for (let i = 0; i < ids.length; i += batchSize) {
+			const batch = ids.slice(i, i + batchSize)
+			const data = await keys.get(category, batch)
+			for (const id of batch) {
+				if (data[id] === undefined || data[id] === null) {
+					continue
+				}
+
+				const value = JSON.stringify(data[id], BufferJSON.replacer)
+				yield encodeLine({ kind: 'key', category, id, value, sha256: checksum(value) })
+				entries += 1
+			}
+		}
+	}
+
+	yield encodeLine({ kind: 'footer', entries })
+}
+
+/**
+ * Imports an archive created by `exportAuthState` into the given auth state.
+ * Every checksum is verified; the creds are only saved once the whole archive
+ * has been read -- so a truncated or corrupted archive never produces a usable, half imported session
+ * @param target the auth state to import into, eg. from `useSqliteAuthState`
+ * @param archive the archive contents, eg. a file read stream
+ */
+export const importAuthState = async (
+	target: { state: AuthenticationState; saveCreds: () => Promise<void> },
+	archive: AsyncIterable<string | Uint8Array>,
+	{ batchSize = DEFAULT_BATCH_SIZE }: AuthStateArchiveOptions = {}
+): Promise<AuthStateImportResult> => {
+	const result: AuthStateImportResult = { keys: {}, createdAt: 0 }
+	let creds: AuthenticationCreds | undefined
+	let batch: { [category: string]: { [id: string]: unknown } } = {}
+	let batchCount = 0
+	let entries = 0
+	let complete = false
+	let lineNo = 0
+
+	const flush = async () => {
+		if (batchCount) {
+			await target.state.keys.set(batch)
+			batch = {}
+			batchCount = 0
+		}
+	}
+
+	const lines = createInterface({ input: Readable.from(archive), crlfDelay: Infinity })
+	for await (const rawLine of lines) {
+		lineNo += 1
+		if (!rawLine.trim()) {
+			continue
+		}
+
+		const line: AuthStateArchiveLine = JSON.parse(rawLine)
+		if (lineNo === 1 && line.kind !== 'header') {
+			throw new Boom('Not an auth state archive, missing header', { statusCode: 400 })
+		}
+
+		if (complete) {
+			throw new Boom('Unexpected data after the archive footer', { statusCode: 400, data: { lineNo } })
+		}
+
+		switch (line.kind) {
+			case 'header':
+				if (line.version > AUTH_STATE_ARCHIVE_VERSION) {
+					throw new Boom(`Unsupported archive version ${line.version}`, { statusCode: 400 })
+				}
+
+				result.createdAt = line.createdAt
+				break
+			case 'creds':
+				verifyChecksum(line, lineNo)
+				creds = JSON.parse(line.value, BufferJSON.reviver)
+				entries += 1
+				break
+			case 'key': {
+				verifyChecksum(line, lineNo)
+				const { category, id, value } = line
+				if (!(SIGNAL_DATA_TYPES as string[]).includes(category)) {
+					throw new Boom(`Unknown key category "${category}" in auth state archive`, {
+						statusCode: 400,
+						data: { lineNo, category }
+					})
+				}
+
+				const categoryBatch = (batch[category] = batch[category] || {})
+				categoryBatch[id] = JSON.parse(value, BufferJSON.reviver)
+				result.keys[category] = (result.keys[category] || 0) + 1
+				entries += 1
+				batchCount += 1
+				if (batchCount >= batchSize) {
+					await flush()
+				}
+
+				break
+			}
+
+			case 'footer':
+				if (line.entries !== entries) {
+					throw new Boom(`Archive has ${entries} entries, expected ${line.entries}`, { statusCode: 400 })
+				}
+
+				complete = true
+				break
+			default:
+				throw new Boom('Unknown entry in auth state archive', {
+					statusCode: 400,
+					data: { lineNo, kind: (line as { kind?: unknown }).kind }
+				})
+		}
+	}
+
+	if (!complete || !creds) {
+		throw new Boom('Auth state archive is truncated', { statusCode: 400 })
+	}
+
+	await flush()
+
+	Object.assign(target.state.creds, creds)
+	await target.saveCreds()
+
+	return result
+}
+
+/**
+ * Copies the creds & every key from one auth state into another, eg. to move from files to SQLite
+ * @example await migrateAuthState(await useMultiFileAuthState('auth_info'), await useSqliteAuthState('auth.db'))
+ */
+export const migrateAuthState = (
+	source: { state: AuthenticationState },
+	target: { state: AuthenticationState; saveCreds: () => Promise<void> },
+	options?: AuthStateArchiveOptions
+) => importAuthState(target, exportAuthState(source.state, options), options)
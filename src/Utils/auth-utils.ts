@@ -100,7 +100,8 @@ export function makeCacheableSignalKeyStore(
 		async clear() {
 			await cache.flushAll()
 			await store.clear?.()
-		}
+		},
+		list: store.list?.bind(store)
 	}
 }
 
@@ -267,6 +268,8 @@ export const addTransactionCapability = (
 			}
 		},
 
+		list: state.list?.bind(state),
+
 		isInTransaction,
 
 		transaction: async (work, key) => {
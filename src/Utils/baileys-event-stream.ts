@@ -1,60 +1,243 @@
 import EventEmitter from 'events'
-import { createReadStream } from 'fs'
-import { writeFile } from 'fs/promises'
+import { createReadStream, createWriteStream } from 'fs'
+import { open as openFile } from 'fs/promises'
+import { extname } from 'path'
 import { createInterface } from 'readline'
-import type { BaileysEventEmitter } from '../Types'
-import { delay } from './generics'
-import { makeMutex } from './make-mutex'
+import { PassThrough, type Transform } from 'stream'
+import { pipeline } from 'stream/promises'
+import { createGunzip, createGzip } from 'zlib'
+import type { BaileysEvent, BaileysEventEmitter, BaileysEventMap } from '../Types'
+import { BufferJSON, delay, iterateEvent, waitForEvent } from './generics'
+
+/** select the events to capture or replay, JID filters only apply to events that reference a JID */
+export type EventStreamFilter = {
+	/** only these events */
+	include?: BaileysEvent[]
+	exclude?: BaileysEvent[]
+	/** only events that reference one of these JIDs */
+	jids?: string[]
+	/** skip events that reference any of these JIDs */
+	excludeJids?: string[]
+}
+
+export type EventStreamCaptureOptions = EventStreamFilter & {
+	/** start a new file once the current one exceeds this many (uncompressed) bytes */
+	maxFileSize?: number
+	/** start a new file once the current one is older than this, checked as events are written */
+	rotateIntervalMs?: number
+	/** gzip the files */
+	gzip?: boolean
+}
+
+export type EventStreamReplayOptions = EventStreamFilter & {
+	/** emit into this emitter (eg. the `ev` of a socket), instead of a new one */
+	ev?: BaileysEventEmitter
+	/**
+	 * replay at the original timing, sped up by this factor.
+	 * Use `Infinity` to emit the events back to back, eg. in tests
+	 */
+	speed?: number
+}
+
+type CapturedEvent = { timestamp: number; event: BaileysEvent; data: unknown }
+
+const JID_KEYS = new Set(['id', 'jid', 'remoteJid', 'remoteJidAlt', 'participant', 'chatId', 'from'])
+
+/** collects the JIDs an event references, from the usual ID fields */
+const collectJids = (data: unknown, jids: Set<string>, depth = 0) => {
+	if (depth > 4 || !data || typeof data !== 'object') {
+		return
+	}
+
+	for (const [key, value] of Object.entries(data)) {
+		if (typeof value === 'string') {
+			if ((Array.isArray(data) || JID_KEYS.has(key)) && value.includes('@')) {
+				jids.add(value)
+			}
+		} else {
+			collectJids(value, jids, depth + 1)
+		}
+	}
+}
+
+const makeEventFilter = ({ include, exclude, jids, excludeJids }: EventStreamFilter) => {
+	const included = include && new Set(include)
+	const excluded = new Set(exclude)
+	const jidSet = jids && new Set(jids)
+	const excludedJidSet = new Set(excludeJids)
+
+	return (event: BaileysEvent, data: unknown) => {
+		if ((included && !included.has(event)) || excluded.has(event)) {
+			return false
+		}
+
+		if (!jidSet && !excludedJidSet.size) {
+			return true
+		}
+
+		const referenced = new Set<string>()
+		collectJids(data, referenced)
+		const references = [...referenced]
+		if (references.some(jid => excludedJidSet.has(jid))) {
+			return false
+		}
+
+		return !jidSet || !references.length || references.some(jid => jidSet.has(jid))
+	}
+}
 
 /**
- * Captures events from a baileys event emitter & stores them in a file
+ * Captures events from a baileys event emitter & stores them in a file, one JSON line per event
  * @param ev The event emitter to read events from
- * @param filename File to save to
+ * @param filename File to save to. When rotating, each file gets the time it was started & its index added before the extension
  */
-export const captureEventStream = (ev: BaileysEventEmitter, filename: string) => {
+export const captureEventStream = (
+	ev: BaileysEventEmitter,
+	filename: string,
+	{ maxFileSize, rotateIntervalMs, gzip, ...filter }: EventStreamCaptureOptions = {}
+) => {
 	const oldEmit = ev.emit
-	// write mutex so data is appended in order
-	const writeMutex = makeMutex()
+	const shouldCapture = makeEventFilter(filter)
+	const files: string[] = []
+	const closing: Promise<void>[] = []
+	let current: { input: Transform; done: Promise<void>; size: number; startedAt: number } | undefined
+
+	const open = () => {
+		const startedAt = Date.now()
+		let path = filename
+		if (maxFileSize || rotateIntervalMs) {
+			const ext = extname(filename)
+			// the index keeps names unique, even if files are rotated within the same ms
+			path = `${filename.slice(0, filename.length - ext.length)}.${startedAt}-${files.length}${ext}`
+		}
+
+		// written through a stream, so data is appended in order
+		const input = gzip ? createGzip() : new PassThrough()
+		files.push(path)
+		return { input, done: pipeline(input, createWriteStream(path, { flags: 'a' })), size: 0, startedAt }
+	}
+
+	const close = async () => {
+		const file = current
+		current = undefined
+		if (file) {
+			file.input.end()
+			await file.done
+		}
+	}
+
 	// monkey patch eventemitter to capture all events
 	ev.emit = function (...args: any[]) {
-		const content = JSON.stringify({ timestamp: Date.now(), event: args[0], data: args[1] }) + '\n'
 		const result = oldEmit.apply(ev, args as any)
+		if (shouldCapture(args[0], args[1])) {
+			const content =
+				JSON.stringify({ timestamp: Date.now(), event: args[0], data: args[1] }, BufferJSON.replacer) + '\n'
+			if (
+				current &&
+				((maxFileSize && current.size + content.length > maxFileSize) ||
+					(rotateIntervalMs && Date.now() - current.startedAt >= rotateIntervalMs))
+			) {
+				closing.push(close())
+			}
 
-		writeMutex.mutex(async () => {
-			await writeFile(filename, content, { flag: 'a' })
-		})
+			current = current || open()
+			current.size += content.length
+			current.input.write(content)
+		}
 
 		return result
 	}
+
+	return {
+		/** the files written to, oldest first */
+		getFiles: () => [...files],
+		/** stop capturing, resolves once all events are written */
+		async stop() {
+			ev.emit = oldEmit
+			closing.push(close())
+			await Promise.all(closing)
+		}
+	}
+}
+
+const GZIP_MAGIC = Buffer.from([0x1f, 0x8b])
+
+/** gzipped files are recognised by their content, as their name need not end with ".gz" */
+const isGzipFile = async (filename: string) => {
+	const file = await openFile(filename)
+	try {
+		const { buffer, bytesRead } = await file.read(Buffer.alloc(GZIP_MAGIC.length), 0, GZIP_MAGIC.length, 0)
+		return bytesRead === GZIP_MAGIC.length && buffer.equals(GZIP_MAGIC)
+	} finally {
+		await file.close()
+	}
+}
+
+async function* readEventStream(filenames: string[]) {
+	for (const filename of filenames) {
+		const gzipped = await isGzipFile(filename)
+		const fileStream = createReadStream(filename)
+		const input = gzipped ? fileStream.pipe(createGunzip()) : fileStream
+		// we use the crlfDelay option to recognize all instances of CR LF ('\r\n') as a single line break
+		const rl = createInterface({ input, crlfDelay: Infinity })
+		try {
+			for await (const line of rl) {
+				if (line) {
+					yield JSON.parse(line, BufferJSON.reviver) as CapturedEvent
+				}
+			}
+		} finally {
+			fileStream.close()
+		}
+	}
+}
+
+const makeEventEmitter = () => {
+	const emitter = new EventEmitter()
+	const ev: BaileysEventEmitter = {
+		on: (...args) => emitter.on(...args),
+		off: (...args) => emitter.off(...args),
+		removeAllListeners: (...args) => emitter.removeAllListeners(...args),
+		emit: (...args) => emitter.emit(...args),
+		iterate: (event, options) => iterateEvent(ev, event, options),
+		once: (event, options) => waitForEvent(ev, event, options)
+	}
+	return ev
 }
 
 /**
- * Read event file and emit events from there
- * @param filename filename containing event data
- * @param delayIntervalMs delay between each event emit
+ * Read event files and emit events from there
+ * @param filename file(s) containing event data, in order. Gzipped files are decompressed
+ * @param options delay between each event emit in ms, or the replay options
  */
-export const readAndEmitEventStream = (filename: string, delayIntervalMs = 0) => {
-	const ev = new EventEmitter() as BaileysEventEmitter
+export const readAndEmitEventStream = (filename: string | string[], options: number | EventStreamReplayOptions = 0) => {
+	// a fixed delay replaces the original timing
+	const {
+		ev = makeEventEmitter(),
+		speed = 1,
+		...filter
+	}: EventStreamReplayOptions = typeof options === 'number' ? { speed: Infinity } : options
+	const delayIntervalMs = typeof options === 'number' ? options : 0
+	const shouldEmit = makeEventFilter(filter)
 
 	const fireEvents = async () => {
-		// from: https://stackoverflow.com/questions/6156501/read-a-file-one-line-at-a-time-in-node-js
-		const fileStream = createReadStream(filename)
+		let firstTimestamp: number | undefined
+		const startedAt = Date.now()
+		for await (const { timestamp, event, data } of readEventStream(Array.isArray(filename) ? filename : [filename])) {
+			if (!shouldEmit(event, data)) {
+				continue
+			}
 
-		const rl = createInterface({
-			input: fileStream,
-			crlfDelay: Infinity
-		})
-		// Note: we use the crlfDelay option to recognize all instances of CR LF
-		// ('\r\n') in input.txt as a single line break.
-		for await (const line of rl) {
-			if (line) {
-				const { event, data } = JSON.parse(line)
-				ev.emit(event, data)
-				delayIntervalMs && (await delay(delayIntervalMs))
+			if (speed !== Infinity) {
+				// keep the original gaps between events, relative to when the replay started
+				firstTimestamp = firstTimestamp ?? timestamp
+				const waitMs = startedAt + (timestamp - firstTimestamp) / speed - Date.now()
+				waitMs > 0 && (await delay(waitMs))
 			}
-		}
 
-		fileStream.close()
+			ev.emit(event, data as BaileysEventMap[typeof event])
+			delayIntervalMs && (await delay(delayIntervalMs))
+		}
 	}
 
 	return {
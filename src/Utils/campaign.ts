@@ -0,0 +1,333 @@
+import { Boom } from '@hapi/boom'
+import { proto } from '../../WAProto/index.js'
+import { MEDIA_KEYS } from '../Defaults'
+import type {
+	AnyMessageContent,
+	BaileysEventEmitter,
+	BaileysEventMap,
+	CampaignOptions,
+	CampaignProgress,
+	CampaignRecipient,
+	CampaignRecipientStatus,
+	CampaignState,
+	WAMessage
+} from '../Types'
+import { DisconnectReason } from '../Types'
+import { isLidUser, isPnUser } from '../WABinary'
+import { delayCancellable } from './generics'
+import type { ILogger } from './logger'
+import { getContentType, normalizeMessageContent } from './messages'
+
+/** numbers checked per `onWhatsApp` query */
+const VALIDATE_CHUNK_SIZE = 50
+
+const STATUS_RANK: { [S in CampaignRecipientStatus]: number } = {
+	pending: 0,
+	sent: 1,
+	'server-ack': 2,
+	delivered: 3,
+	read: 4,
+	failed: 0
+}
+
+const MESSAGE_STATUS_MAP: { [status: number]: CampaignRecipientStatus } = {
+	[proto.WebMessageInfo.Status.ERROR]: 'failed',
+	[proto.WebMessageInfo.Status.SERVER_ACK]: 'server-ack',
+	[proto.WebMessageInfo.Status.DELIVERY_ACK]: 'delivered',
+	[proto.WebMessageInfo.Status.READ]: 'read',
+	[proto.WebMessageInfo.Status.PLAYED]: 'read'
+}
+
+export type CampaignConfig = {
+	ev: BaileysEventEmitter
+	logger: ILogger
+	onWhatsApp: (...phoneNumbers: string[]) => Promise<{ jid: string; exists: boolean }[] | undefined>
+	sendMessage: (jid: string, content: AnyMessageContent) => Promise<WAMessage | undefined>
+	/** generates the message content, uploading any media */
+	generateContent: (content: AnyMessageContent) => Promise<proto.IMessage>
+	/** sends already generated content */
+	sendContent: (jid: string, message: proto.IMessage) => Promise<WAMessage>
+}
+
+const isMediaContent = (content: AnyMessageContent) => MEDIA_KEYS.some(key => key in content)
+
+/** the user part of a phone number or JID, eg. "+1 (234) 567-890" -> "1234567890" */
+const toPhoneNumber = (id: string) => id.split('@')[0]!.split(':')[0]!.replace(/\D/g, '')
+
+/**
+ * sends the same message one-to-one to many recipients, one at a time.
+ * Media is uploaded once & reused for every recipient,
+ * and the status of each recipient is tracked from the message updates & receipts
+ */
+export const makeCampaign = (
+	config: CampaignConfig,
+	{ recipients, content, personalise, validate = true, delayMs = [1_000, 3_000], onUpdate }: CampaignOptions
+) => {
+	// replaced when bound to a new socket
+	let socket = config
+	const list: CampaignRecipient[] = recipients.map(id => ({ id, status: 'pending', updatedAt: Date.now() }))
+	const byMessageId = new Map<string, CampaignRecipient>()
+	let state: CampaignState = 'idle'
+	let running: Promise<CampaignProgress> | undefined
+	let media: Promise<proto.IMessage> | undefined
+	let wake: (() => void) | undefined
+	let closed = false
+	/** paused because the connection closed, rather than by the caller */
+	let isWaitingForConnection = false
+
+	// counted as the statuses change, as the progress is reported on every update
+	const statusCounts: { [S in CampaignRecipientStatus]: number } = {
+		pending: list.length,
+		sent: 0,
+		'server-ack': 0,
+		delivered: 0,
+		read: 0,
+		failed: 0
+	}
+
+	const getProgress = (): CampaignProgress => ({ state, total: list.length, ...statusCounts })
+
+	const update = (recipient: CampaignRecipient, changes: Partial<CampaignRecipient>) => {
+		if (changes.status && changes.status !== recipient.status) {
+			statusCounts[recipient.status] -= 1
+			statusCounts[changes.status] += 1
+		}
+
+		Object.assign(recipient, changes, { updatedAt: Date.now() })
+		onUpdate?.({ ...recipient }, getProgress())
+	}
+
+	/** statuses only move forward, as receipts may arrive out of order */
+	const updateStatus = (recipient: CampaignRecipient, status: CampaignRecipientStatus) => {
+		const isUpgrade =
+			status === 'failed'
+				? recipient.status !== 'failed' && STATUS_RANK[recipient.status] < STATUS_RANK.delivered
+				: recipient.status !== 'failed' && STATUS_RANK[status] > STATUS_RANK[recipient.status]
+		if (isUpgrade) {
+			update(recipient, { status, error: status === 'failed' ? 'Message failed to send' : undefined })
+		}
+	}
+
+	/** continue sending, if the campaign was paused by the connection closing */
+	const resumeOnConnection = () => {
+		if (isWaitingForConnection) {
+			isWaitingForConnection = false
+			resume()
+		}
+	}
+
+	const listeners = {
+		'connection.update': ({ connection }: BaileysEventMap['connection.update']) => {
+			if (connection === 'open') {
+				resumeOnConnection()
+			}
+		},
+		'messages.update': (updates: BaileysEventMap['messages.update']) => {
+			for (const { key, update } of updates) {
+				const recipient = key.fromMe && key.id ? byMessageId.get(key.id) : undefined
+				const status = typeof update.status === 'number' ? MESSAGE_STATUS_MAP[update.status] : undefined
+				if (recipient && status) {
+					updateStatus(recipient, status)
+				}
+			}
+		},
+		'message-receipt.update': (receipts: BaileysEventMap['message-receipt.update']) => {
+			for (const { key, receipt } of receipts) {
+				const recipient = key.fromMe && key.id ? byMessageId.get(key.id) : undefined
+				if (recipient) {
+					if (receipt.readTimestamp || receipt.playedTimestamp) {
+						updateStatus(recipient, 'read')
+					} else if (receipt.receiptTimestamp) {
+						updateStatus(recipient, 'delivered')
+					}
+				}
+			}
+		}
+	}
+	const listen = (ev: BaileysEventEmitter) => {
+		ev.on('connection.update', listeners['connection.update'])
+		ev.on('messages.update', listeners['messages.update'])
+		ev.on('message-receipt.update', listeners['message-receipt.update'])
+	}
+
+	const stopListening = (ev: BaileysEventEmitter) => {
+		ev.off('connection.update', listeners['connection.update'])
+		ev.off('messages.update', listeners['messages.update'])
+		ev.off('message-receipt.update', listeners['message-receipt.update'])
+	}
+
+	listen(socket.ev)
+
+	/** resolves the JIDs of the recipients, failing the ones not on WhatsApp */
+	const resolveRecipients = async () => {
+		const unresolved: CampaignRecipient[] = []
+		for (const recipient of list) {
+			if (recipient.status !== 'pending' || recipient.jid) {
+				continue
+			}
+
+			if (isLidUser(recipient.id)) {
+				// can't be validated, see onWhatsApp
+				update(recipient, { jid: recipient.id })
+			} else if ((recipient.id.includes('@') && !isPnUser(recipient.id)) || !toPhoneNumber(recipient.id)) {
+				update(recipient, { status: 'failed', error: 'Not a one-to-one chat' })
+			} else if (!validate) {
+				update(recipient, { jid: `${toPhoneNumber(recipient.id)}@s.whatsapp.net` })
+			} else {
+				unresolved.push(recipient)
+			}
+		}
+
+		for (let i = 0; i < unresolved.length && !closed; i += VALIDATE_CHUNK_SIZE) {
+			const chunk = unresolved.slice(i, i + VALIDATE_CHUNK_SIZE)
+			const results = await socket.onWhatsApp(...chunk.map(({ id }) => toPhoneNumber(id)))
+			const existing = new Map(
+				results?.filter(({ exists }) => exists).map(({ jid }) => [toPhoneNumber(jid), jid] as const)
+			)
+			for (const recipient of chunk) {
+				let jid = existing.get(toPhoneNumber(recipient.id))
+				if (!jid && chunk.length > 1) {
+					// WA may return a different number than the one queried (eg. with or without a leading digit),
+					// which can only be matched up when queried alone
+					const [result] = (await socket.onWhatsApp(toPhoneNumber(recipient.id))) || []
+					jid = result?.exists ? result.jid : undefined
+				}
+
+				update(recipient, jid ? { jid } : { status: 'failed', error: 'Not on WhatsApp' })
+			}
+		}
+	}
+
+	const send = async (recipient: CampaignRecipient) => {
+		const jid = recipient.jid!
+		const changes = await personalise?.(jid, { ...recipient })
+		if (!isMediaContent(content)) {
+			return socket.sendMessage(jid, { ...content, ...changes } as AnyMessageContent)
+		}
+
+		media = media || socket.generateContent(content)
+		const prepared = await media.catch(error => {
+			// try the upload again for the next recipient
+			media = undefined
+			throw error
+		})
+		const message = proto.Message.decode(proto.Message.encode(prepared).finish())
+		if (changes && 'caption' in changes) {
+			const inner = normalizeMessageContent(message)!
+			const mediaMessage = inner[getContentType(inner) as 'imageMessage']
+			mediaMessage && (mediaMessage.caption = changes.caption)
+		}
+
+		return socket.sendContent(jid, message)
+	}
+
+	const sleep = async (ms: number) => {
+		const { delay, cancel } = delayCancellable(ms)
+		wake = cancel
+		// cancelled when resumed or closed
+		await delay.catch(() => {})
+		wake = undefined
+	}
+
+	/** wait till resumed or closed */
+	const waitForResume = async () => {
+		await new Promise<void>(resolve => (wake = resolve))
+		wake = undefined
+	}
+
+	const resume = () => {
+		if (state === 'paused') {
+			state = 'running'
+			wake?.()
+		}
+	}
+
+	const run = async () => {
+		await resolveRecipients()
+		for (const recipient of list) {
+			while (recipient.status === 'pending' && recipient.jid && !closed) {
+				if (state === 'paused') {
+					await waitForResume()
+					continue
+				}
+
+				try {
+					const msg = await send(recipient)
+					if (msg?.key.id) {
+						byMessageId.set(msg.key.id, recipient)
+					}
+
+					update(recipient, { status: 'sent', messageId: msg?.key.id || undefined })
+				} catch (error) {
+					if (error instanceof Boom && error.output.statusCode === DisconnectReason.connectionClosed) {
+						// the connection closed, retried once it opens again or the campaign is bound to a new socket
+						socket.logger.warn({ error }, 'connection closed, pausing campaign')
+						state = 'paused'
+						isWaitingForConnection = true
+						continue
+					}
+
+					socket.logger.warn({ error, jid: recipient.jid }, 'failed to send campaign message')
+					update(recipient, { status: 'failed', error: error instanceof Error ? error.message : String(error) })
+				}
+
+				const [min, max] = delayMs
+				max > 0 && (await sleep(min + Math.random() * (max - min)))
+			}
+		}
+
+		if (!closed && !list.some(({ status }) => status === 'pending')) {
+			state = 'completed'
+		}
+
+		return getProgress()
+	}
+
+	return {
+		/**
+		 * start sending, recipients are validated first
+		 * @returns the progress, once every recipient has been sent to (or the campaign was closed)
+		 */
+		start() {
+			if (!running) {
+				state = 'running'
+				running = run().finally(() => (running = undefined))
+			}
+
+			return running
+		},
+		/** stop sending after the current message, till resumed */
+		pause() {
+			if (state === 'running') {
+				state = 'paused'
+			}
+		},
+		resume() {
+			isWaitingForConnection = false
+			resume()
+		},
+		/**
+		 * continue on a new socket, eg. after reconnecting -- use `sock.bindCampaign`.
+		 * A campaign paused by the connection closing resumes on it
+		 */
+		bind(newConfig: CampaignConfig) {
+			stopListening(socket.ev)
+			socket = newConfig
+			if (!closed) {
+				listen(socket.ev)
+				// if it's not open yet, sending fails & the campaign waits for the connection again
+				resumeOnConnection()
+			}
+		},
+		getProgress,
+		getRecipients: () => list.map(recipient => ({ ...recipient })),
+		/** stop sending & tracking statuses */
+		close() {
+			closed = true
+			stopListening(socket.ev)
+			wake?.()
+		}
+	}
+}
+
+export type Campaign = ReturnType<typeof makeCampaign>
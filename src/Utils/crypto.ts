@@ -156,24 +156,23 @@ export async function hkdf(
 	return Buffer.from(derivedBits)
 }
 
-export async function derivePairingCodeKey(pairingCode: string, salt: Buffer): Promise<Buffer> {
+/** derive a 256 bit key from a secret string using PBKDF2 (SHA-256) */
+export async function pbkdf2(secret: string, salt: Buffer, iterations: number): Promise<Buffer> {
 	// Convert inputs to formats Web Crypto API can work with
 	const encoder = new TextEncoder()
-	const pairingCodeBuffer = encoder.encode(pairingCode)
+	const secretBuffer = encoder.encode(secret)
 	const saltBuffer = new Uint8Array(salt instanceof Uint8Array ? salt : new Uint8Array(salt))
 
-	// Import the pairing code as key material
-	const keyMaterial = await subtle.importKey('raw', pairingCodeBuffer as BufferSource, { name: 'PBKDF2' }, false, [
+	// Import the secret as key material
+	const keyMaterial = await subtle.importKey('raw', secretBuffer as BufferSource, { name: 'PBKDF2' }, false, [
 		'deriveBits'
 	])
 
-	// Derive bits using PBKDF2 with the same parameters
-	// 2 << 16 = 131,072 iterations
 	const derivedBits = await subtle.deriveBits(
 		{
 			name: 'PBKDF2',
 			salt: saltBuffer as BufferSource,
-			iterations: 2 << 16,
+			iterations,
 			hash: 'SHA-256'
 		},
 		keyMaterial,
@@ -182,3 +181,8 @@ export async function derivePairingCodeKey(pairingCode: string, salt: Buffer): P
 
 	return Buffer.from(derivedBits)
 }
+
+export async function derivePairingCodeKey(pairingCode: string, salt: Buffer): Promise<Buffer> {
+	// 2 << 16 = 131,072 iterations
+	return pbkdf2(pairingCode, salt, 2 << 16)
+}
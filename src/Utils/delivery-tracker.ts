@@ -0,0 +1,135 @@
+import NodeCache from '@cacheable/node-cache'
+import { Boom } from '@hapi/boom'
+import { proto } from '../../WAProto/index.js'
+import { DEFAULT_CACHE_TTLS } from '../Defaults'
+import type {
+	MessageDeliveryErrorData,
+	MessageDeliveryStatus,
+	MessageDeliveryWaitOptions,
+	WAMessageKey
+} from '../Types'
+import { promiseTimeout } from './generics'
+
+const STATUS_RANK: { [S in MessageDeliveryStatus]: number } = {
+	'server-ack': 1,
+	delivered: 2,
+	read: 3,
+	played: 4
+}
+
+const MESSAGE_STATUS_MAP: { [status: number]: MessageDeliveryStatus } = {
+	[proto.WebMessageInfo.Status.SERVER_ACK]: 'server-ack',
+	[proto.WebMessageInfo.Status.DELIVERY_ACK]: 'delivered',
+	[proto.WebMessageInfo.Status.READ]: 'read',
+	[proto.WebMessageInfo.Status.PLAYED]: 'played'
+}
+
+type DeliveryState = { status?: MessageDeliveryStatus; error?: Boom<MessageDeliveryErrorData> }
+
+type DeliveryWaiter = {
+	status: MessageDeliveryStatus
+	resolve: (status: MessageDeliveryStatus) => void
+	reject: (error: Error) => void
+}
+
+/**
+ * keeps track of how far sent messages got, from the acks & receipts received for them.
+ * Messages are matched by ID, as receipts may come from a different JID (eg. LID) than the message was sent to
+ */
+export const makeDeliveryTracker = () => {
+	// so a delivery can be tracked after the ack was received
+	const states = new NodeCache<DeliveryState>({ stdTTL: DEFAULT_CACHE_TTLS.MSG_RETRY, useClones: false })
+	const waiters = new Map<string, Set<DeliveryWaiter>>()
+
+	const getState = (id: string) => {
+		let state = states.get(id)
+		if (!state) {
+			state = {}
+			states.set(id, state)
+		}
+
+		return state
+	}
+
+	const notify = (id: string, state: DeliveryState) => {
+		for (const waiter of waiters.get(id) || []) {
+			if (state.error) {
+				waiter.reject(state.error)
+			} else if (state.status && STATUS_RANK[state.status] >= STATUS_RANK[waiter.status]) {
+				waiter.resolve(state.status)
+			}
+		}
+	}
+
+	const updateStatus = (id: string, status: MessageDeliveryStatus) => {
+		const state = getState(id)
+		// receipts may arrive out of order
+		if (!state.error && (!state.status || STATUS_RANK[status] > STATUS_RANK[state.status])) {
+			state.status = status
+			notify(id, state)
+		}
+	}
+
+	return {
+		/** process the ack of a sent message */
+		handleAck(key: WAMessageKey, errorCode?: string) {
+			if (!errorCode) {
+				updateStatus(key.id!, 'server-ack')
+				return
+			}
+
+			const code = +errorCode
+			const state = getState(key.id!)
+			state.error = new Boom<MessageDeliveryErrorData>(`Message rejected with error ${errorCode}`, {
+				statusCode: code >= 400 ? code : 500,
+				data: { key, code }
+			})
+			notify(key.id!, state)
+		},
+		/** process a receipt for messages sent by us */
+		handleReceipt(ids: string[], status: proto.WebMessageInfo.Status) {
+			const deliveryStatus = MESSAGE_STATUS_MAP[status]
+			if (deliveryStatus) {
+				for (const id of ids) {
+					updateStatus(id, deliveryStatus)
+				}
+			}
+		},
+		/** reject everything being waited on, eg. when the connection closes */
+		rejectAll(error: Error) {
+			for (const set of waiters.values()) {
+				for (const waiter of set) {
+					waiter.reject(error)
+				}
+			}
+		},
+		track(key: WAMessageKey) {
+			const id = key.id!
+			return {
+				/** the latest status of the message, if any ack or receipt was received */
+				getStatus: () => states.get(id)?.status,
+				/**
+				 * wait till the message reaches the status (or a later one).
+				 * Rejects with a `Boom<MessageDeliveryErrorData>` if WA acks the message with an error.
+				 * For group messages, the status is reached once any participant reaches it
+				 * @returns the status reached
+				 */
+				until: (status: MessageDeliveryStatus, { timeoutMs }: MessageDeliveryWaitOptions = {}) => {
+					let waiter: DeliveryWaiter | undefined
+					return promiseTimeout<MessageDeliveryStatus>(timeoutMs, (resolve, reject) => {
+						waiter = { status, resolve, reject }
+						waiters.set(id, (waiters.get(id) || new Set()).add(waiter))
+						const state = states.get(id)
+						state && notify(id, state)
+					}).finally(() => {
+						const set = waiters.get(id)
+						set?.delete(waiter!)
+						!set?.size && waiters.delete(id)
+					})
+				}
+			}
+		}
+	}
+}
+
+export type DeliveryTracker = ReturnType<typeof makeDeliveryTracker>
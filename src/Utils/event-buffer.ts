@@ -3,6 +3,7 @@ import type {
 	BaileysEvent,
 	BaileysEventEmitter,
 	BaileysEventMap,
+	BaileysEventMiddleware,
 	BufferedEventData,
 	Chat,
 	ChatUpdate,
@@ -11,7 +12,7 @@ import type {
 	WAMessageKey
 } from '../Types'
 import { WAMessageStatus } from '../Types'
-import { trimUndefined } from './generics'
+import { iterateEvent, trimUndefined, waitForEvent } from './generics'
 import type { ILogger } from './logger'
 import { updateMessageWithReaction, updateMessageWithReceipt } from './messages'
 import { isRealMessage, shouldIncrementChatUnread } from './process-message'
@@ -25,6 +26,7 @@ const BUFFERABLE_EVENT = [
 	'contacts.update',
 	'messages.upsert',
 	'messages.update',
+	'messages.edit-history',
 	'messages.delete',
 	'messages.reaction',
 	'message-receipt.update',
@@ -61,6 +63,17 @@ type BaileysBufferableEventEmitter = BaileysEventEmitter & {
 	flush(): boolean
 	/** is there an ongoing buffer */
 	isBuffering(): boolean
+	/**
+	 * add a middleware, that runs on every event after it's flushed from the buffer & before listeners receive it.
+	 * Middlewares run in the order they were added, and events are delivered in order even if a middleware is async
+	 * @returns function to remove the middleware
+	 */
+	use(middleware: BaileysEventMiddleware): () => void
+	/**
+	 * listen to an event as it's flushed, before & regardless of any middleware.
+	 * Used by the socket to keep its own state in sync
+	 */
+	onInternal<T extends BaileysEvent>(event: T, listener: (arg: BaileysEventMap[T]) => void): void
 }
 
 /**
@@ -68,9 +81,19 @@ type BaileysBufferableEventEmitter = BaileysEventEmitter & {
  * making the data processing more efficient.
  */
 export const makeEventBuffer = (logger: ILogger): BaileysBufferableEventEmitter => {
+	// the socket's own listeners, always called synchronously
+	const internalEv = new EventEmitter()
+	// user listeners, called once the event has passed through the middlewares
 	const ev = new EventEmitter()
 	const historyCache = new Set<string>()
 
+	const middlewares: BaileysEventMiddleware[] = []
+	let middlewareQueue = Promise.resolve()
+	let pendingMiddlewareRuns = 0
+	let middlewareRuns = 0
+	// user listeners removed while events were in the middlewares, still owed the events of the runs up to `lastRun`
+	const removedListeners: { event: BaileysEvent; lastRun: number; emitter: EventEmitter }[] = []
+
 	let data = makeBufferData()
 	let isBuffering = false
 	let bufferTimeout: NodeJS.Timeout | null = null
@@ -79,12 +102,102 @@ export const makeEventBuffer = (logger: ILogger): BaileysBufferableEventEmitter
 	const BUFFER_TIMEOUT_MS = 30000 // 30 seconds
 
 	// take the generic event and fire it as a baileys event
-	ev.on('event', (map: BaileysEventData) => {
+	internalEv.on('event', (map: BaileysEventData) => {
 		for (const event in map) {
-			ev.emit(event, map[event as keyof BaileysEventMap])
+			internalEv.emit(event, map[event as keyof BaileysEventMap])
 		}
 	})
 
+	/** fire events that passed through the middlewares to the user's listeners & batch handlers */
+	function emitProcessed(map: BaileysEventData, run?: number) {
+		ev.emit('event', map)
+		for (const event in map) {
+			const removed = run
+				? removedListeners.find(removed => removed.event === event && run <= removed.lastRun)
+				: undefined
+			;(removed?.emitter || ev).emit(event, map[event as keyof BaileysEventMap])
+		}
+	}
+
+	/** fire the data to the internal listeners, then send it through the middlewares to the user's listeners */
+	function emitEventMap(map: BaileysEventData) {
+		internalEv.emit('event', map)
+		// events still in the middlewares are delivered first, even if the middlewares have since been removed
+		if (!middlewares.length && !pendingMiddlewareRuns) {
+			emitProcessed(map)
+			return
+		}
+
+		const pipeline = [...middlewares]
+		const run = ++middlewareRuns
+		pendingMiddlewareRuns += 1
+		middlewareQueue = middlewareQueue
+			.then(async () => {
+				const outputs: [BaileysEvent, unknown][] = []
+				for (const event in map) {
+					await runMiddlewares(pipeline, 0, event as BaileysEvent, map[event as BaileysEvent], outputs)
+				}
+
+				// split events can't share a map, so start a new one when an event repeats
+				let processed: { [event: string]: unknown } = {}
+				for (const [event, data] of outputs) {
+					if (event in processed) {
+						emitProcessed(processed, run)
+						processed = {}
+					}
+
+					processed[event] = data
+				}
+
+				if (Object.keys(processed).length) {
+					emitProcessed(processed, run)
+				}
+			})
+			.catch(error => logger.error({ error }, 'failed to emit events'))
+			.finally(() => {
+				pendingMiddlewareRuns -= 1
+			})
+	}
+
+	/** whether anyone is listening to the event, includes batch handlers added via `process` */
+	function hasListeners(event: BaileysEvent) {
+		return internalEv.listenerCount(event) > 0 || ev.listenerCount(event) > 0 || ev.listenerCount('event') > 0
+	}
+
+	async function runMiddlewares(
+		pipeline: BaileysEventMiddleware[],
+		index: number,
+		event: BaileysEvent,
+		data: unknown,
+		outputs: [BaileysEvent, unknown][]
+	) {
+		const middleware = pipeline[index]
+		if (!middleware) {
+			outputs.push([event, data])
+			return
+		}
+
+		let passed = false
+		const next = async (nextData = data) => {
+			passed = true
+			await runMiddlewares(pipeline, index + 1, event, nextData, outputs)
+		}
+
+		try {
+			await (middleware as (event: BaileysEvent, data: unknown, next: (data?: unknown) => Promise<void>) => void)(
+				event,
+				data,
+				next
+			)
+		} catch (error) {
+			// a failing middleware should not take the event down with it
+			logger.error({ error, event }, 'event middleware failed')
+			if (!passed) {
+				await next()
+			}
+		}
+	}
+
 	function buffer() {
 		if (!isBuffering) {
 			logger.debug('Event buffer activated')
@@ -141,7 +254,7 @@ export const makeEventBuffer = (logger: ILogger): BaileysBufferableEventEmitter
 
 		const consolidatedData = consolidateEvents(data)
 		if (Object.keys(consolidatedData).length) {
-			ev.emit('event', consolidatedData)
+			emitEventMap(consolidatedData)
 		}
 
 		data = newData
@@ -168,11 +281,22 @@ export const makeEventBuffer = (logger: ILogger): BaileysBufferableEventEmitter
 				return true
 			}
 
-			return ev.emit('event', { [event]: evData })
+			emitEventMap({ [event]: evData })
+			return hasListeners(event)
 		},
 		isBuffering() {
 			return isBuffering
 		},
+		use(middleware) {
+			middlewares.push(middleware)
+			return () => {
+				const index = middlewares.indexOf(middleware)
+				if (index >= 0) {
+					middlewares.splice(index, 1)
+				}
+			}
+		},
+		onInternal: (...args) => internalEv.on(...args),
 		buffer,
 		flush,
 		createBufferedFunction(work) {
@@ -203,11 +327,30 @@ export const makeEventBuffer = (logger: ILogger): BaileysBufferableEventEmitter
 		},
 		on: (...args) => ev.on(...args),
 		off: (...args) => ev.off(...args),
-		removeAllListeners: (...args) => ev.removeAllListeners(...args)
+		removeAllListeners(event) {
+			internalEv.removeAllListeners(event)
+			// the events still in the middlewares reach the removed listeners, instead of the ones added since
+			if (pendingMiddlewareRuns) {
+				const removed = { event, lastRun: middlewareRuns, emitter: new EventEmitter() }
+				for (const listener of ev.rawListeners(event) as ((data: unknown) => void)[]) {
+					removed.emitter.on(event, listener)
+				}
+
+				removedListeners.push(removed)
+				middlewareQueue = middlewareQueue.then(() => {
+					removedListeners.splice(removedListeners.indexOf(removed), 1)
+				})
+			}
+
+			ev.removeAllListeners(event)
+		},
+		iterate: (event, options) => iterateEvent(ev, event, options),
+		once: (event, options) => waitForEvent(ev, event, options)
 	}
 }
 
-const makeBufferData = (): BufferedEventData => {
+/** empty buffered data, also used to evaluate the `conditional` of chat updates outside the buffer */
+export const makeBufferData = (): BufferedEventData => {
 	return {
 		historySets: {
 			chats: {},
@@ -223,6 +366,7 @@ const makeBufferData = (): BufferedEventData => {
 		contactUpdates: {},
 		messageUpserts: {},
 		messageUpdates: {},
+		messageEditHistory: [],
 		messageReactions: {},
 		messageDeletes: {},
 		messageReceipts: {},
@@ -455,6 +599,9 @@ function append<E extends BufferableEvent>(
 				}
 			}
 
+			break
+		case 'messages.edit-history':
+			data.messageEditHistory.push(...(eventData as BaileysEventMap['messages.edit-history']))
 			break
 		case 'messages.delete':
 			const deleteData = eventData as BaileysEventMap['messages.delete']
@@ -598,6 +745,11 @@ function consolidateEvents(data: BufferedEventData) {
 		}
 	}
 
+	// before the updates, so the content before the change is still around
+	if (data.messageEditHistory.length) {
+		map['messages.edit-history'] = data.messageEditHistory
+	}
+
 	const messageUpdateList = Object.values(data.messageUpdates)
 	if (messageUpdateList.length) {
 		map['messages.update'] = messageUpdateList
@@ -0,0 +1,214 @@
+import { Boom } from '@hapi/boom'
+import { LRUCache } from 'lru-cache'
+import { proto } from '../../WAProto/index.js'
+import type {
+	AuthenticationCreds,
+	BaileysEventEmitter,
+	EventAttendee,
+	EventAttendees,
+	EventResponse,
+	EventResponseOptions,
+	MessageRelayOptions,
+	WAMessage,
+	WAMessageKey
+} from '../Types'
+import { isLidUser, jidNormalizedUser } from '../WABinary'
+import { generateMessageIDV2, getKeyAuthor, toNumber } from './generics'
+import type { ILogger } from './logger'
+import { makeMutex } from './make-mutex'
+import { generateWAMessageFromContent, normalizeMessageContent } from './messages'
+import { decryptEventResponse, decryptMessageAddon, encryptEventResponse } from './process-message'
+
+const ResponseType = proto.Message.EventResponseMessage.EventResponseType
+
+const RESPONSE_MAP: { [type: number]: EventResponse } = {
+	[ResponseType.GOING]: 'going',
+	[ResponseType.NOT_GOING]: 'not-going',
+	[ResponseType.MAYBE]: 'maybe'
+}
+
+const RESPONSE_TYPE_MAP: { [R in EventResponse]: proto.Message.EventResponseMessage.EventResponseType } = {
+	going: ResponseType.GOING,
+	'not-going': ResponseType.NOT_GOING,
+	maybe: ResponseType.MAYBE
+}
+
+export type EventResponseTrackerConfig = {
+	ev: BaileysEventEmitter
+	logger: ILogger
+	creds: AuthenticationCreds
+	/** looks up event messages not seen on the socket */
+	getMessage: (key: WAMessageKey) => Promise<proto.IMessage | undefined>
+	relayMessage: (jid: string, message: proto.IMessage, options: MessageRelayOptions) => Promise<unknown>
+}
+
+/** events kept in memory, the least recently responded to are dropped first */
+const MAX_TRACKED_EVENTS = 1000
+
+type TrackedEvent = {
+	key: WAMessageKey
+	name: string
+	secret: Uint8Array
+	attendees: Map<string, EventAttendee>
+}
+
+/**
+ * keeps the responses to events (going, not going, maybe), from the encrypted responses received on the socket,
+ * & sends our own responses
+ */
+export const makeEventResponseTracker = ({
+	ev,
+	logger,
+	creds,
+	getMessage,
+	relayMessage
+}: EventResponseTrackerConfig) => {
+	const { mutex } = makeMutex()
+	const events = new LRUCache<string, TrackedEvent>({ max: MAX_TRACKED_EVENTS })
+
+	const register = ({ key, message }: Pick<WAMessage, 'key' | 'message'>) => {
+		const eventMessage = normalizeMessageContent(message)?.eventMessage
+		const secret = message?.messageContextInfo?.messageSecret
+		if (!eventMessage || !secret) {
+			return
+		}
+
+		let event = events.get(key.id!)
+		if (!event) {
+			event = { key, name: eventMessage.name || '', secret, attendees: new Map() }
+			events.set(key.id!, event)
+		}
+
+		return event
+	}
+
+	const loadEvent = async (key: WAMessageKey) =>
+		events.get(key.id!) || register({ key, message: await getMessage(key) })
+
+	const getAttendees = ({ key, name, attendees }: TrackedEvent): EventAttendees => {
+		const list = [...attendees.values()]
+		const going = list.filter(({ response }) => response === 'going')
+		return {
+			key,
+			name,
+			going,
+			notGoing: list.filter(({ response }) => response === 'not-going'),
+			maybe: list.filter(({ response }) => response === 'maybe'),
+			headcount: going.reduce((count, { extraGuestCount }) => count + 1 + (extraGuestCount || 0), 0)
+		}
+	}
+
+	const applyResponse = (event: TrackedEvent, jid: string, response: proto.Message.IEventResponseMessage) => {
+		const timestampMs = toNumber(response.timestampMs)
+		const existing = event.attendees.get(jid)
+		if (existing && existing.timestampMs > timestampMs) {
+			return
+		}
+
+		const attendee = {
+			jid,
+			response: RESPONSE_MAP[response.response!],
+			extraGuestCount: response.extraGuestCount || 0,
+			timestampMs
+		}
+		if (attendee.response) {
+			event.attendees.set(jid, attendee as EventAttendee)
+		} else {
+			event.attendees.delete(jid)
+		}
+
+		ev.emit('events.rsvp', { ...getAttendees(event), attendee })
+	}
+
+	const getMeJid = (key: WAMessageKey) => {
+		// respond with the identity the event was addressed with
+		const meJid = isLidUser(key.participant || key.remoteJid!) && creds.me?.lid ? creds.me.lid : creds.me!.id
+		return jidNormalizedUser(meJid)
+	}
+
+	ev.on('messages.upsert', ({ messages }) => {
+		for (const msg of messages) {
+			const content = normalizeMessageContent(msg.message)
+			if (content?.eventMessage) {
+				register(msg)
+			}
+
+			const encResponse = content?.encEventResponseMessage
+			if (!encResponse?.eventCreationMessageKey) {
+				continue
+			}
+
+			mutex(async () => {
+				const event = await loadEvent(encResponse.eventCreationMessageKey!)
+				if (!event) {
+					logger.debug({ key: encResponse.eventCreationMessageKey }, 'event message not found, ignoring response')
+					return
+				}
+
+				const decrypted = decryptMessageAddon(
+					{ creatorKey: event.key, senderKey: msg.key, me: creds.me },
+					(eventCreatorJid, responderJid) =>
+						decryptEventResponse(encResponse, {
+							eventCreatorJid,
+							eventMsgId: event.key.id!,
+							eventEncKey: event.secret,
+							responderJid
+						})
+				)
+				if (!decrypted) {
+					logger.warn({ key: msg.key, eventId: event.key.id }, 'failed to decrypt event response')
+					return
+				}
+
+				const { sender: responder, result: response } = decrypted
+				response.timestampMs = toNumber(response.timestampMs) || toNumber(msg.messageTimestamp) * 1000
+				applyResponse(event, responder, response)
+			}).catch(error => logger.error({ error, key: msg.key }, 'failed to process event response'))
+		}
+	})
+
+	return {
+		/**
+		 * respond to an event, a later response replaces the earlier one
+		 * @param eventKey key of the event message
+		 */
+		respondToEvent: (eventKey: WAMessageKey, { response, extraGuestCount }: EventResponseOptions) =>
+			mutex(async () => {
+				const event = await loadEvent(eventKey)
+				if (!event) {
+					throw new Boom('Event message not found', { statusCode: 404, data: { key: eventKey } })
+				}
+
+				const responderJid = getMeJid(event.key)
+				const eventResponse: proto.Message.IEventResponseMessage = {
+					response: RESPONSE_TYPE_MAP[response],
+					timestampMs: Date.now(),
+					extraGuestCount
+				}
+				const { encPayload, encIv } = encryptEventResponse(eventResponse, {
+					eventCreatorJid: event.key.fromMe ? responderJid : jidNormalizedUser(getKeyAuthor(event.key)),
+					eventMsgId: event.key.id!,
+					eventEncKey: event.secret,
+					responderJid
+				})
+
+				const jid = event.key.remoteJid!
+				const msg = generateWAMessageFromContent(
+					jid,
+					{ encEventResponseMessage: { eventCreationMessageKey: event.key, encPayload, encIv } },
+					{ userJid: creds.me!.id, messageId: generateMessageIDV2(creds.me?.id) }
+				)
+				await relayMessage(jid, msg.message!, {
+					messageId: msg.key.id!,
+					additionalNodes: [{ tag: 'meta', attrs: { event_type: 'response' } }]
+				})
+				applyResponse(event, responderJid, eventResponse)
+				return msg
+			}),
+		/** the responses to an event, undefined if the event is not tracked */
+		getEventAttendees: (key: WAMessageKey) =>
+			mutex(async () => (events.has(key.id!) ? getAttendees(events.get(key.id!)!) : undefined))
+	}
+}
+
+export type EventResponseTracker = ReturnType<typeof makeEventResponseTracker>
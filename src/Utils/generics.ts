@@ -7,7 +7,9 @@ import type {
 	BaileysEventEmitter,
 	BaileysEventMap,
 	ConnectionState,
+	EventIteratorOptions,
 	WACallUpdateType,
+	WaitForEventOptions,
 	WAMessageKey,
 	WAVersion
 } from '../Types'
@@ -198,31 +200,165 @@ export const generateMessageIDV2 = (userId?: string): string => {
 // generate a random ID to attach to a message
 export const generateMessageID = () => '3EB0' + randomBytes(18).toString('hex').toUpperCase()
 
-export function bindWaitForEvent<T extends keyof BaileysEventMap>(ev: BaileysEventEmitter, event: T) {
-	return async (check: (u: BaileysEventMap[T]) => Promise<boolean | undefined>, timeoutMs?: number) => {
-		let listener: (item: BaileysEventMap[T]) => void
-		let closeListener: (state: Partial<ConnectionState>) => void
-		await promiseTimeout<void>(timeoutMs, (resolve, reject) => {
-			closeListener = ({ connection, lastDisconnect }) => {
-				if (connection === 'close') {
-					reject(
-						lastDisconnect?.error || new Boom('Connection Closed', { statusCode: DisconnectReason.connectionClosed })
-					)
-				}
+type EventSource = Pick<BaileysEventEmitter, 'on' | 'off'>
+
+/**
+ * wait for the next event matching the filter
+ * rejects if the connection closes, the timeout is reached or the signal is aborted
+ */
+export async function waitForEvent<T extends keyof BaileysEventMap>(
+	ev: EventSource,
+	event: T,
+	{ filter, timeoutMs, signal }: WaitForEventOptions<T> = {}
+) {
+	let listener: (item: BaileysEventMap[T]) => void
+	let closeListener: (state: Partial<ConnectionState>) => void
+	let abortListener: () => void
+	return promiseTimeout<BaileysEventMap[T]>(timeoutMs, (resolve, reject) => {
+		closeListener = ({ connection, lastDisconnect }) => {
+			if (connection === 'close') {
+				reject(
+					lastDisconnect?.error || new Boom('Connection Closed', { statusCode: DisconnectReason.connectionClosed })
+				)
 			}
+		}
 
-			ev.on('connection.update', closeListener)
-			listener = async update => {
-				if (await check(update)) {
-					resolve()
+		ev.on('connection.update', closeListener)
+		listener = async update => {
+			try {
+				if (!filter || (await filter(update))) {
+					resolve(update)
 				}
+			} catch (error) {
+				reject(error)
 			}
+		}
 
-			ev.on(event, listener)
-		}).finally(() => {
-			ev.off(event, listener)
-			ev.off('connection.update', closeListener)
-		})
+		ev.on(event, listener)
+		abortListener = () => reject(signal!.reason)
+		if (signal?.aborted) {
+			abortListener()
+		} else {
+			signal?.addEventListener('abort', abortListener)
+		}
+	}).finally(() => {
+		ev.off(event, listener)
+		ev.off('connection.update', closeListener)
+		signal?.removeEventListener('abort', abortListener)
+	})
+}
+
+/**
+ * iterate over the data of an event in the order it was emitted,
+ * queuing events till the consumer is ready for them.
+ * The iteration ends when the connection closes, the signal is aborted or the loop exits
+ */
+export function iterateEvent<T extends keyof BaileysEventMap>(
+	ev: EventSource,
+	event: T,
+	{ signal, filter, highWaterMark = Infinity }: EventIteratorOptions<T> = {}
+): AsyncIterableIterator<BaileysEventMap[T]> {
+	type Result = IteratorResult<BaileysEventMap[T], undefined>
+
+	const queue: BaileysEventMap[T][] = []
+	let waiting: { resolve: (result: Result) => void; reject: (error: Error) => void } | undefined
+	let error: Error | undefined
+	let done = false
+
+	const finish = (err?: Error) => {
+		if (done) {
+			return
+		}
+
+		done = true
+		ev.off(event, listener)
+		ev.off('connection.update', closeListener)
+		signal?.removeEventListener('abort', abortListener)
+		if (waiting) {
+			err ? waiting.reject(err) : waiting.resolve({ done: true, value: undefined })
+			waiting = undefined
+		} else {
+			error = err
+		}
+	}
+
+	const listener = (item: BaileysEventMap[T]) => {
+		if (done) {
+			return
+		}
+
+		// a throwing filter fails the iterator, rather than the emit that delivered the event
+		try {
+			if (filter && !filter(item)) {
+				return
+			}
+		} catch (err) {
+			finish(err instanceof Error ? err : new Error(String(err)))
+			return
+		}
+
+		if (waiting) {
+			waiting.resolve({ done: false, value: item })
+			waiting = undefined
+		} else if (queue.length >= highWaterMark) {
+			finish(new Boom('Event consumer too slow', { statusCode: 429, data: { event, highWaterMark } }))
+		} else {
+			queue.push(item)
+		}
+	}
+
+	const closeListener = ({ connection }: Partial<ConnectionState>) => {
+		if (connection === 'close') {
+			finish()
+		}
+	}
+
+	const abortListener = () => finish()
+
+	if (signal?.aborted) {
+		done = true
+	} else {
+		// registered first, so the closing "connection.update" is still yielded when iterating it
+		ev.on(event, listener)
+		ev.on('connection.update', closeListener)
+		signal?.addEventListener('abort', abortListener)
+	}
+
+	return {
+		async next(): Promise<Result> {
+			if (queue.length) {
+				return { done: false, value: queue.shift()! }
+			}
+
+			if (error) {
+				const err = error
+				error = undefined
+				throw err
+			}
+
+			if (done) {
+				return { done: true, value: undefined }
+			}
+
+			return new Promise((resolve, reject) => {
+				waiting = { resolve, reject }
+			})
+		},
+		async return(): Promise<Result> {
+			finish()
+			queue.length = 0
+			error = undefined
+			return { done: true, value: undefined }
+		},
+		[Symbol.asyncIterator]() {
+			return this
+		}
+	}
+}
+
+export function bindWaitForEvent<T extends keyof BaileysEventMap>(ev: BaileysEventEmitter, event: T) {
+	return async (check: (u: BaileysEventMap[T]) => Promise<boolean | undefined>, timeoutMs?: number) => {
+		await waitForEvent(ev, event, { filter: check, timeoutMs })
 	}
 }
 
@@ -1,6 +1,7 @@
 export * from './generics'
 export * from './decode-wa-message'
 export * from './messages'
+export * from './interactive-messages'
 export * from './messages-media'
 export * from './validate-connection'
 export * from './crypto'
@@ -10,8 +11,20 @@ export * from './history'
 export * from './chat-utils'
 export * from './lt-hash'
 export * from './auth-utils'
+export * from './auth-encryption'
+export * from './auth-state-archive'
+export * from './verify-auth-state'
 export * from './baileys-event-stream'
+export * from './webhook-dispatcher'
+export * from './message-scheduler'
+export * from './send-rate-limiter'
+export * from './delivery-tracker'
+export * from './status-sender'
+export * from './poll-tracker'
+export * from './event-response-tracker'
+export * from './campaign'
 export * from './use-multi-file-auth-state'
+export * from './use-sqlite-auth-state'
 export * from './link-preview'
 export * from './event-buffer'
 export * from './process-message'
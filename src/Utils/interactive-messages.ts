@@ -0,0 +1,221 @@
+import { Boom } from '@hapi/boom'
+import type { proto } from '../../WAProto/index.js'
+import type {
+	AnyMediaMessageContent,
+	InteractiveButton,
+	InteractiveCard,
+	InteractiveContent,
+	InteractiveHeader,
+	InteractiveList,
+	InteractiveProductHeader
+} from '../Types'
+
+type NativeFlowButton = proto.Message.InteractiveMessage.NativeFlowMessage.INativeFlowButton
+
+/** uploads the media of a header, eg. with `prepareWAMessageMedia` */
+type InteractiveMediaPreparer = (media: AnyMediaMessageContent) => Promise<proto.IMessage>
+
+/** limits beyond which the official clients don't render the message */
+const LIMITS = {
+	body: 1024,
+	footer: 60,
+	headerTitle: 60,
+	buttons: 10,
+	replyButtons: 3,
+	buttonText: 20,
+	sections: 10,
+	rows: 10,
+	sectionTitle: 24,
+	rowTitle: 24,
+	rowDescription: 72,
+	cards: 10,
+	cardBody: 160,
+	cardButtons: 2
+}
+
+const invalid = (message: string, data?: object): never => {
+	throw new Boom(message, { statusCode: 400, data })
+}
+
+const assertLength = (field: string, value: string | null | undefined, max: number, required = false) => {
+	if (required && !value) {
+		invalid(`${field} is required`, { field })
+	}
+
+	if (value && value.length > max) {
+		invalid(`${field} is longer than ${max} characters`, { field, max })
+	}
+}
+
+const assertCount = (field: string, count: number, max: number) => {
+	if (count < 1 || count > max) {
+		invalid(`Expected 1 to ${max} ${field}, got ${count}`, { field, count, max })
+	}
+}
+
+const assertUniqueIds = (field: string, ids: string[]) => {
+	for (const [index, id] of ids.entries()) {
+		assertLength(`${field} ID`, id, 256, true)
+		if (ids.indexOf(id) !== index) {
+			invalid(`Duplicate ${field} ID "${id}"`, { field, id })
+		}
+	}
+}
+
+const validateButtons = (buttons: InteractiveButton[], max: number) => {
+	assertCount('buttons', buttons.length, max)
+	const replies = buttons.filter(button => button.type === 'reply')
+	if (replies.length > LIMITS.replyButtons) {
+		invalid(`Expected at most ${LIMITS.replyButtons} reply buttons, got ${replies.length}`)
+	}
+
+	assertUniqueIds(
+		'button',
+		replies.map(({ id }) => id)
+	)
+	for (const button of buttons) {
+		assertLength('button text', button.text, LIMITS.buttonText, true)
+		if (button.type === 'url' && !/^https?:\/\//.test(button.url)) {
+			invalid('Button URL must be an http(s) URL', { url: button.url })
+		}
+	}
+}
+
+const validateList = ({ buttonText, sections }: InteractiveList) => {
+	assertLength('list button text', buttonText, LIMITS.buttonText, true)
+	assertCount('sections', sections.length, LIMITS.sections)
+	const rows = sections.flatMap(section => section.rows)
+	assertCount('rows', rows.length, LIMITS.rows)
+	assertUniqueIds(
+		'row',
+		rows.map(({ id }) => id)
+	)
+	for (const { title } of sections) {
+		// the sections can't be told apart without titles
+		assertLength('section title', title, LIMITS.sectionTitle, sections.length > 1)
+	}
+
+	for (const { title, description } of rows) {
+		assertLength('row title', title, LIMITS.rowTitle, true)
+		assertLength('row description', description, LIMITS.rowDescription)
+	}
+}
+
+const getCardHeaderType = ({ header }: InteractiveCard) =>
+	'product' in header ? 'product' : 'image' in header.media ? 'image' : 'video'
+
+const validateCards = (cards: InteractiveCard[]) => {
+	assertCount('cards', cards.length, LIMITS.cards)
+	const [first] = cards
+	for (const card of cards) {
+		validateButtons(card.buttons, LIMITS.cardButtons)
+		assertLength('card body', card.body, LIMITS.cardBody)
+		assertLength('card footer', card.footer, LIMITS.footer)
+		if (getCardHeaderType(card) !== getCardHeaderType(first!) || card.buttons.length !== first!.buttons.length) {
+			invalid('All cards must have the same kind of header & the same number of buttons')
+		}
+	}
+}
+
+const toNativeFlowButton = (button: InteractiveButton): NativeFlowButton => {
+	switch (button.type) {
+		case 'reply':
+			return { name: 'quick_reply', buttonParamsJson: JSON.stringify({ display_text: button.text, id: button.id }) }
+		case 'url':
+			return {
+				name: 'cta_url',
+				buttonParamsJson: JSON.stringify({
+					display_text: button.text,
+					url: button.url,
+					merchant_url: button.merchantUrl || button.url
+				})
+			}
+		case 'call':
+			return {
+				name: 'cta_call',
+				buttonParamsJson: JSON.stringify({ display_text: button.text, phone_number: button.phoneNumber })
+			}
+		case 'copy':
+			return {
+				name: 'cta_copy',
+				buttonParamsJson: JSON.stringify({ display_text: button.text, copy_code: button.code })
+			}
+	}
+}
+
+const toSingleSelectButton = ({ buttonText, sections }: InteractiveList): NativeFlowButton => ({
+	name: 'single_select',
+	buttonParamsJson: JSON.stringify({
+		title: buttonText,
+		sections: sections.map(({ title, rows }) => ({
+			title,
+			rows: rows.map(({ id, title, description }) => ({ id, title, description, header: '' }))
+		}))
+	})
+})
+
+const generateHeader = async (
+	header: InteractiveHeader | InteractiveProductHeader | undefined,
+	prepareMedia: InteractiveMediaPreparer
+): Promise<proto.Message.InteractiveMessage.IHeader> => {
+	if (header && 'product' in header) {
+		const { product, businessOwnerJid } = header
+		const { imageMessage } = await prepareMedia({ image: product.productImage })
+		return {
+			hasMediaAttachment: true,
+			productMessage: { product: { ...product, productImage: imageMessage }, businessOwnerJid }
+		}
+	}
+
+	const { title, subtitle, media } = header || {}
+	assertLength('header title', title, LIMITS.headerTitle)
+	if (!media) {
+		return { title, subtitle, hasMediaAttachment: false }
+	}
+
+	const { imageMessage, videoMessage, documentMessage } = await prepareMedia(media)
+	return { title, subtitle, hasMediaAttachment: true, imageMessage, videoMessage, documentMessage }
+}
+
+/**
+ * validates & builds an interactive message, uploading the header media.
+ * Buttons & lists are sent as a native flow, which all current clients render
+ */
+export const generateInteractiveMessage = async (
+	content: InteractiveContent,
+	prepareMedia: InteractiveMediaPreparer
+): Promise<proto.Message.IInteractiveMessage> => {
+	assertLength('body', content.body, LIMITS.body, !('cards' in content))
+	assertLength('footer', content.footer, LIMITS.footer)
+	const body = { text: content.body }
+	const footer = content.footer ? { text: content.footer } : undefined
+
+	if ('cards' in content) {
+		validateCards(content.cards)
+		const cards = await Promise.all(
+			content.cards.map(async card => ({
+				header: await generateHeader(card.header, prepareMedia),
+				body: { text: card.body || '' },
+				footer: card.footer ? { text: card.footer } : undefined,
+				nativeFlowMessage: { buttons: card.buttons.map(toNativeFlowButton), messageVersion: 1 }
+			}))
+		)
+		return { body, footer, carouselMessage: { cards, messageVersion: 1 } }
+	}
+
+	let buttons: NativeFlowButton[]
+	if ('list' in content) {
+		validateList(content.list)
+		buttons = [toSingleSelectButton(content.list)]
+	} else {
+		validateButtons(content.buttons, LIMITS.buttons)
+		buttons = content.buttons.map(toNativeFlowButton)
+	}
+
+	return {
+		header: await generateHeader(content.header, prepareMedia),
+		body,
+		footer,
+		nativeFlowMessage: { buttons, messageParamsJson: '', messageVersion: 1 }
+	}
+}
@@ -0,0 +1,218 @@
+import { Boom } from '@hapi/boom'
+import { randomUUID } from 'crypto'
+import { readFile, rename, writeFile } from 'fs/promises'
+import type {
+	AnyMessageContent,
+	BaileysEventEmitter,
+	MiscMessageGenerationOptions,
+	MissedScheduledMessagePolicy,
+	ScheduledMessage,
+	ScheduledMessageStore,
+	ScheduleMessageOptions,
+	WAMessage
+} from '../Types'
+import { BufferJSON } from './generics'
+import type { ILogger } from './logger'
+import { makeMutex } from './make-mutex'
+
+/** setTimeout fires immediately for longer delays */
+const MAX_TIMEOUT_MS = 2 ** 31 - 1
+
+/** a socket is created per connection, so the missed policy is relative to when the process started */
+const STARTED_AT = Date.now()
+
+/** keeps scheduled messages in memory, they're lost when the process exits */
+export const makeMemoryScheduledMessageStore = (): ScheduledMessageStore => {
+	const messages = new Map<string, ScheduledMessage>()
+	return {
+		get: id => messages.get(id),
+		listPending: () => [...messages.values()],
+		save(message) {
+			if (message.status === 'pending') {
+				messages.set(message.id, message)
+			} else {
+				messages.delete(message.id)
+			}
+		}
+	}
+}
+
+/**
+ * keeps scheduled messages in a JSON file, so they survive restarts.
+ * The file is rewritten on every change, which is fine for the hundreds of messages a bot has scheduled
+ */
+export const makeFileScheduledMessageStore = (path: string): ScheduledMessageStore => {
+	const { mutex } = makeMutex()
+	let messages: Map<string, ScheduledMessage> | undefined
+
+	const load = async () => {
+		if (!messages) {
+			try {
+				const list: ScheduledMessage[] = JSON.parse(await readFile(path, 'utf-8'), BufferJSON.reviver)
+				messages = new Map(list.map(message => [message.id, message]))
+			} catch (error) {
+				if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+					throw error
+				}
+
+				messages = new Map()
+			}
+		}
+
+		return messages
+	}
+
+	return {
+		get: id => mutex(async () => (await load()).get(id)),
+		listPending: () => mutex(async () => [...(await load()).values()]),
+		save: message =>
+			mutex(async () => {
+				const messages = await load()
+				if (message.status === 'pending') {
+					messages.set(message.id, message)
+				} else {
+					messages.delete(message.id)
+				}
+
+				// write to a temporary file first, so a crash can't leave a half written file
+				await writeFile(`${path}.tmp`, JSON.stringify([...messages.values()], BufferJSON.replacer))
+				await rename(`${path}.tmp`, path)
+			})
+	}
+}
+
+export type MessageSchedulerConfig = {
+	store: ScheduledMessageStore
+	missedPolicy: MissedScheduledMessagePolicy
+	ev: BaileysEventEmitter
+	logger: ILogger
+	sendMessage: (
+		jid: string,
+		content: AnyMessageContent,
+		options?: MiscMessageGenerationOptions
+	) => Promise<WAMessage | undefined>
+}
+
+/**
+ * sends messages at a later time, while the connection is open.
+ * Messages already due when the process started are handled according to the missed policy once it opens,
+ * ones that came due during a disconnect are sent
+ */
+export const makeMessageScheduler = ({ store, missedPolicy, ev, logger, sendMessage }: MessageSchedulerConfig) => {
+	const { mutex } = makeMutex()
+	const timers = new Map<string, NodeJS.Timeout>()
+	let isOpen = false
+
+	const save = async (message: ScheduledMessage) => {
+		await store.save(message)
+		ev.emit('scheduled-messages.update', [message])
+	}
+
+	const clearTimer = (id: string) => {
+		clearTimeout(timers.get(id))
+		timers.delete(id)
+	}
+
+	const arm = (message: ScheduledMessage) => {
+		clearTimer(message.id)
+		if (!isOpen) {
+			return
+		}
+
+		const delayMs = Math.max(message.at - Date.now(), 0)
+		timers.set(
+			message.id,
+			setTimeout(() => (message.at > Date.now() ? arm(message) : send(message.id)), Math.min(delayMs, MAX_TIMEOUT_MS))
+		)
+	}
+
+	const send = (id: string) =>
+		mutex(async () => {
+			timers.delete(id)
+			const message = await store.get(id)
+			if (message?.status !== 'pending' || !isOpen) {
+				return
+			}
+
+			try {
+				const sent = await sendMessage(message.jid, message.content, message.options)
+				await save({ ...message, status: 'sent', messageKey: sent?.key })
+			} catch (error) {
+				logger.warn({ error, id }, 'failed to send scheduled message')
+				await save({ ...message, status: 'failed', error: error instanceof Error ? error.message : String(error) })
+			}
+		})
+
+	/** arm the pending messages, applying the missed policy to the ones due before the process started */
+	const resume = () =>
+		mutex(async () => {
+			for (const message of await store.listPending()) {
+				const missed = message.createdAt < STARTED_AT && message.at <= STARTED_AT
+				if (!missed || missedPolicy === 'send') {
+					arm(message)
+					continue
+				}
+
+				const at = missedPolicy === 'skip' ? undefined : missedPolicy(message)
+				if (at === undefined) {
+					await save({ ...message, status: 'failed', error: 'Missed the scheduled time' })
+				} else {
+					const rescheduled = { ...message, at }
+					await save(rescheduled)
+					arm(rescheduled)
+				}
+			}
+		})
+
+	ev.on('connection.update', ({ connection }) => {
+		if (connection === 'open') {
+			isOpen = true
+			resume().catch(error => logger.error({ error }, 'failed to resume scheduled messages'))
+		} else if (connection === 'close') {
+			isOpen = false
+			for (const id of timers.keys()) {
+				clearTimer(id)
+			}
+		}
+	})
+
+	return {
+		/**
+		 * send a message at a later time, it's kept in the scheduled message store till then
+		 * @returns the scheduled message, its ID can be used to cancel it
+		 */
+		scheduleMessage: (jid: string, content: AnyMessageContent, { at, options }: ScheduleMessageOptions) =>
+			mutex(async () => {
+				const time = typeof at === 'number' ? at : at.getTime()
+				if (!Number.isFinite(time)) {
+					throw new Boom('Invalid schedule time', { statusCode: 400, data: { at } })
+				}
+
+				const message: ScheduledMessage = {
+					id: randomUUID(),
+					jid,
+					content,
+					options,
+					at: time,
+					status: 'pending',
+					createdAt: Date.now()
+				}
+				await save(message)
+				arm(message)
+				return message
+			}),
+		/** @returns false if the message was not pending */
+		cancelScheduledMessage: (id: string) =>
+			mutex(async () => {
+				const message = await store.get(id)
+				if (message?.status !== 'pending') {
+					return false
+				}
+
+				clearTimer(id)
+				await save({ ...message, status: 'cancelled' })
+				return true
+			}),
+		listScheduledMessages: () => mutex(async () => store.listPending())
+	}
+}
@@ -1,6 +1,6 @@
 import { Boom } from '@hapi/boom'
 import axios, { type AxiosRequestConfig } from 'axios'
-import { exec } from 'child_process'
+import { execFile } from 'child_process'
 import ffmpeg from 'fluent-ffmpeg'
 // @ts-ignore - ffmpeg-static n�o tem tipos TypeScript
 import ffmpegPath from 'ffmpeg-static'
@@ -13,6 +13,7 @@ import type { IAudioMetadata } from 'music-metadata'
 import { tmpdir } from 'os'
 import { join } from 'path'
 import { Readable, Transform } from 'stream'
+import { pipeline } from 'stream/promises'
 import { URL } from 'url'
 import { proto } from '../../WAProto/index.js'
 import { DEFAULT_ORIGIN, MEDIA_HKDF_KEY_MAPPING, MEDIA_PATH_MAP, type MediaType } from '../Defaults'
@@ -21,8 +22,13 @@ import type {
 	DownloadableMessage,
 	MediaConnInfo,
 	MediaDecryptionKeyInfo,
+	MediaIntegrityCheck,
+	MediaRetryResult,
 	MessageType,
 	SocketConfig,
+	VerifiableDownloadableMessage,
+	VideoProbe,
+	VideoTransformOptions,
 	WAGenericMediaMessage,
 	WAMediaUpload,
 	WAMediaUploadFunction,
@@ -131,8 +137,21 @@ const extractVideoThumb = async (
 	size: { width: number; height: number }
 ) =>
 	new Promise<void>((resolve, reject) => {
-		const cmd = `ffmpeg -ss ${time} -i ${path} -y -vf scale=${size.width}:-1 -vframes 1 -f image2 ${destPath}`
-		exec(cmd, err => {
+		const args = [
+			'-ss',
+			time,
+			'-i',
+			path,
+			'-y',
+			'-vf',
+			`scale=${size.width}:-1`,
+			'-vframes',
+			'1',
+			'-f',
+			'image2',
+			destPath
+		]
+		execFile(ffmpegPath || 'ffmpeg', args, err => {
 			if (err) {
 				reject(err)
 			} else {
@@ -141,6 +160,153 @@ const extractVideoThumb = async (
 		})
 	})
 
+const DEFAULT_VIDEO_MAX_BYTES = 100 * 1024 * 1024
+const DEFAULT_VIDEO_MAX_DIMENSION = 1280
+const VIDEO_AUDIO_KBPS = 128
+const VIDEO_MAX_KBPS = 4000
+/** below this, the video is too degraded to be worth sending */
+const VIDEO_MIN_KBPS = 100
+
+/** reads the codec, duration & dimensions of a video with ffprobe */
+export const probeVideo = (path: string) =>
+	new Promise<VideoProbe>((resolve, reject) => {
+		ffmpeg(path)
+			.setFfprobePath(ffprobePath.path)
+			.ffprobe((error, data) => {
+				const video = data?.streams.find(({ codec_type }) => codec_type === 'video')
+				if (error || !video) {
+					reject(error || new Boom('No video stream in the media', { statusCode: 400 }))
+					return
+				}
+
+				const audio = data.streams.find(({ codec_type }) => codec_type === 'audio')
+				const rotation = Number(video.rotation || video.tags?.rotate || 0)
+				const isRotated = Math.abs(rotation) % 180 === 90
+				const width = video.width || 0
+				const height = video.height || 0
+				resolve({
+					container: data.format.format_name || '',
+					videoCodec: video.codec_name || '',
+					audioCodec: audio?.codec_name,
+					pixelFormat: video.pix_fmt,
+					seconds: Math.round(Number(data.format.duration || video.duration) || 0),
+					width: isRotated ? height : width,
+					height: isRotated ? width : height,
+					fileLength: Number(data.format.size) || 0
+				})
+			})
+	})
+
+export const isPlayableVideo = (probe: VideoProbe, maxBytes: number, maxDimension: number, ptv: boolean) =>
+	// mov & mp4 share a demuxer, so H.264/AAC .mov files are playable too
+	probe.container.split(',').includes('mp4') &&
+	probe.videoCodec === 'h264' &&
+	probe.pixelFormat === 'yuv420p' &&
+	(!probe.audioCodec || probe.audioCodec === 'aac') &&
+	probe.fileLength <= maxBytes &&
+	Math.max(probe.width, probe.height) <= maxDimension &&
+	(!ptv || probe.width === probe.height)
+
+/** the bitrates to transcode a video with, so it fits in the max bytes */
+export const getVideoBitrates = (
+	{ audioCodec, seconds }: Pick<VideoProbe, 'audioCodec' | 'seconds'>,
+	maxBytes: number
+) => {
+	const audioKbps = audioCodec ? VIDEO_AUDIO_KBPS : 0
+	// 5% is left for the container
+	const fittingKbps = seconds ? Math.floor((maxBytes * 8 * 0.95) / 1000 / seconds) - audioKbps : Infinity
+	const videoKbps = Math.min(fittingKbps, VIDEO_MAX_KBPS)
+	if (videoKbps < VIDEO_MIN_KBPS) {
+		throw new Boom(`Video is too long to fit in ${maxBytes} bytes`, {
+			statusCode: 413,
+			data: { seconds, maxBytes }
+		})
+	}
+
+	return { videoKbps, audioKbps }
+}
+
+const transcodeVideo = (
+	inputPath: string,
+	outputPath: string,
+	probe: VideoProbe,
+	{ maxBytes, maxDimension, ptv }: { maxBytes: number; maxDimension: number; ptv: boolean }
+) => {
+	const { videoKbps, audioKbps } = getVideoBitrates(probe, maxBytes)
+	const filters = [
+		`scale='min(${maxDimension},iw)':'min(${maxDimension},ih)':force_original_aspect_ratio=decrease:force_divisible_by=2`
+	]
+	if (ptv) {
+		filters.unshift("crop='min(iw,ih)':'min(iw,ih)'")
+	}
+
+	return new Promise<void>((resolve, reject) => {
+		const command = ffmpeg(inputPath)
+			.setFfmpegPath(ffmpegPath as string)
+			.videoCodec('libx264')
+			.videoFilters(filters)
+			.outputOptions([
+				'-preset veryfast',
+				'-crf 23',
+				`-maxrate ${videoKbps}k`,
+				`-bufsize ${videoKbps * 2}k`,
+				'-pix_fmt yuv420p',
+				// lets the video play before it's fully downloaded
+				'-movflags +faststart'
+			])
+			.format('mp4')
+			.on('error', reject)
+			.on('end', () => resolve())
+		if (probe.audioCodec) {
+			command.audioCodec('aac').audioBitrate(audioKbps).audioChannels(2)
+		} else {
+			command.noAudio()
+		}
+
+		command.save(outputPath)
+	})
+}
+
+/**
+ * probes a video, & transcodes it to H.264/AAC MP4 if WA can't play it or it's beyond the limits.
+ * Video notes (`ptv`) are also cropped to a square
+ * @returns the probe of the video to send, & the path of the transcoded file if it was transcoded
+ */
+export const prepareVideoForWhatsApp = async (
+	filePath: string,
+	{ maxBytes, maxDimension, ptv, logger }: VideoTransformOptions & { ptv?: boolean; logger?: ILogger } = {}
+): Promise<{ probe: VideoProbe; filePath?: string }> => {
+	const limits = {
+		maxBytes: maxBytes ?? DEFAULT_VIDEO_MAX_BYTES,
+		maxDimension: maxDimension ?? DEFAULT_VIDEO_MAX_DIMENSION,
+		ptv: !!ptv
+	}
+	const probe = await probeVideo(filePath)
+	if (isPlayableVideo(probe, limits.maxBytes, limits.maxDimension, limits.ptv)) {
+		logger?.debug({ probe }, 'video is playable as is')
+		return { probe }
+	}
+
+	const transcodedFilePath = join(getTmpFilesDirectory(), generateMessageIDV2() + '.mp4')
+	logger?.debug({ probe, ptv }, 'transcoding video')
+	try {
+		await transcodeVideo(filePath, transcodedFilePath, probe, limits)
+		const transcoded = await probeVideo(transcodedFilePath)
+		if (transcoded.fileLength > limits.maxBytes) {
+			throw new Boom(`Transcoded video is larger than ${limits.maxBytes} bytes`, {
+				statusCode: 413,
+				data: { fileLength: transcoded.fileLength, maxBytes: limits.maxBytes }
+			})
+		}
+
+		logger?.debug({ probe: transcoded }, 'transcoded video')
+		return { probe: transcoded, filePath: transcodedFilePath }
+	} catch (error) {
+		await fs.unlink(transcodedFilePath).catch(() => {})
+		throw error
+	}
+}
+
 /** 
  * Converts audio to PTT-compatible format using MediaUtils logic (simplified and tested)
  * Based on production logic from DigitalSac backend - PROVEN TO WORK
@@ -387,12 +553,49 @@ export const getStream = async (item: WAMediaUpload, opts?: AxiosRequestConfig)
 	return { stream: createReadStream(item.url), type: 'file' } as const
 }
 
+/**
+ * SHA-256 of the plaintext media, without encrypting it.
+ * Only for media that can be read again after hashing (buffers & local files), undefined for streams & remote URLs
+ */
+export const getMediaContentHash = async (media: WAMediaUpload) => {
+	if (Buffer.isBuffer(media)) {
+		return Crypto.createHash('sha256').update(media).digest()
+	}
+
+	const url = 'url' in media ? media.url.toString() : undefined
+	if (!url || url.startsWith('http://') || url.startsWith('https://')) {
+		return
+	}
+
+	const { stream } = await getStream(media)
+	const hasher = Crypto.createHash('sha256')
+	for await (const data of stream) {
+		hasher.update(data)
+	}
+
+	return hasher.digest()
+}
+
+/** SHA-256 of media large enough for its upload to be resumed, undefined for smaller media & media that can't be hashed */
+export const getResumableUploadHash = async (media: WAMediaUpload) => {
+	let size = 0
+	if (Buffer.isBuffer(media)) {
+		size = media.length
+	} else if ('url' in media && !/^https?:\/\//.test(media.url.toString())) {
+		size = (await fs.stat(media.url)).size
+	}
+
+	return size >= RESUMABLE_UPLOAD_MIN_BYTES ? getMediaContentHash(media) : undefined
+}
+
 /** generates a thumbnail for a given media, if required */
 export async function generateThumbnail(
 	file: string,
 	mediaType: 'video' | 'image',
 	options: {
 		logger?: ILogger
+		/** duration of the video, to take the thumbnail from a frame past the start */
+		videoSeconds?: number
 	}
 ) {
 	let thumbnail: string | undefined
@@ -409,7 +612,9 @@ export async function generateThumbnail(
 	} else if (mediaType === 'video') {
 		const imgFilename = join(getTmpFilesDirectory(), generateMessageIDV2() + '.jpg')
 		try {
-			await extractVideoThumb(file, imgFilename, '00:00:00', { width: 32, height: 32 })
+			// the first frame is often black
+			const time = options.videoSeconds ? Math.min(1, options.videoSeconds / 2) : 0
+			await extractVideoThumb(file, imgFilename, time.toString(), { width: 32, height: 32 })
 			const buff = await fs.readFile(imgFilename)
 			thumbnail = buff.toString('base64')
 
@@ -434,18 +639,19 @@ type EncryptedStreamOptions = {
 	saveOriginalFileIfRequired?: boolean
 	logger?: ILogger
 	opts?: AxiosRequestConfig
+	/** key to encrypt the media with, a random one by default */
+	mediaKey?: Buffer
 }
 
 export const encryptedStream = async (
 	media: WAMediaUpload,
 	mediaType: MediaType,
-	{ logger, saveOriginalFileIfRequired, opts }: EncryptedStreamOptions = {}
+	{ logger, saveOriginalFileIfRequired, opts, mediaKey = Crypto.randomBytes(32) }: EncryptedStreamOptions = {}
 ) => {
 	const { stream, type } = await getStream(media, opts as any)
 
 	logger?.debug('fetched media stream')
 
-	const mediaKey = Crypto.randomBytes(32)
 	const { cipherKey, iv, macKey } = await getMediaKeys(mediaKey, mediaType)
 
 	const encFilePath = join(getTmpFilesDirectory(), mediaType + generateMessageIDV2() + '-enc')
@@ -505,8 +711,10 @@ export const encryptedStream = async (
 
 		encFileWriteStream.write(mac)
 
+		// the files are read right after, so they must be fully flushed
 		encFileWriteStream.end()
-		originalFileStream?.end?.()
+		originalFileStream?.end()
+		await Promise.all([once(encFileWriteStream, 'finish'), originalFileStream && once(originalFileStream, 'finish')])
 		stream.destroy()
 
 		logger?.debug('encrypted data successfully')
@@ -558,22 +766,148 @@ export type MediaDownloadOptions = {
 
 export const getUrlFromDirectPath = (directPath: string) => `https://${DEF_HOST}${directPath}`
 
-export const downloadContentFromMessage = async (
-	{ mediaKey, directPath, url }: DownloadableMessage,
-	type: MediaType,
-	opts: MediaDownloadOptions = {}
-) => {
+const getMediaDownloadUrl = ({ directPath, url }: DownloadableMessage) => {
 	const isValidMediaUrl = url?.startsWith('https://mmg.whatsapp.net/')
 	const downloadUrl = isValidMediaUrl ? url : getUrlFromDirectPath(directPath!)
 	if (!downloadUrl) {
 		throw new Boom('No valid media URL or directPath present in message', { statusCode: 400 })
 	}
 
+	return downloadUrl
+}
+
+export const downloadContentFromMessage = async (
+	{ mediaKey, directPath, url }: DownloadableMessage,
+	type: MediaType,
+	opts: MediaDownloadOptions = {}
+) => {
+	const downloadUrl = getMediaDownloadUrl({ directPath, url })
 	const keys = await getMediaKeys(mediaKey, type)
 
 	return downloadEncryptedContent(downloadUrl, keys, opts)
 }
 
+/** length of the MAC appended to encrypted media */
+const MEDIA_MAC_LENGTH = 10
+
+const integrityError = (check: MediaIntegrityCheck) =>
+	new Boom(`Media failed the integrity check (${check})`, { statusCode: 422, data: { check } })
+
+/**
+ * downloads encrypted media to a file, verifying the MAC & both hashes before the file is moved to the path.
+ * The encrypted file is downloaded next to the path first (as `<path>.enc.part`),
+ * so an interrupted download is resumed with a range request on the next call
+ */
+export const downloadVerifiedContentToFile = async (
+	{ mediaKey, directPath, url, fileSha256, fileEncSha256 }: VerifiableDownloadableMessage,
+	type: MediaType,
+	path: string,
+	{ options }: Pick<MediaDownloadOptions, 'options'> = {}
+) => {
+	const downloadUrl = getMediaDownloadUrl({ directPath, url })
+	const { cipherKey, iv, macKey } = await getMediaKeys(mediaKey, type)
+	const encPath = `${path}.enc.part`
+
+	/** downloads the encrypted file, continuing from the given offset */
+	const download = async (offset: number) => {
+		const response = await axios.get<Readable>(downloadUrl, {
+			...(options || {}),
+			headers: {
+				...(options?.headers || {}),
+				Origin: DEFAULT_ORIGIN,
+				...(offset ? { Range: `bytes=${offset}-` } : {})
+			},
+			responseType: 'stream',
+			maxBodyLength: Infinity,
+			maxContentLength: Infinity,
+			// 416: the partial file is already complete
+			validateStatus: status => (status >= 200 && status < 300) || (!!offset && status === 416)
+		})
+		if (response.status === 416) {
+			response.data.destroy()
+		} else {
+			// the server may ignore the range & send the whole file
+			await pipeline(response.data, createWriteStream(encPath, { flags: response.status === 206 ? 'a' : 'w' }))
+		}
+	}
+
+	// the MAC is appended to the ciphertext
+	let encLength = 0
+	const readCiphertext = () => createReadStream(encPath, { end: encLength - 1 })
+	const verify = async () => {
+		encLength = (await fs.stat(encPath)).size - MEDIA_MAC_LENGTH
+		if (encLength <= 0) {
+			throw integrityError('mac')
+		}
+
+		const mac = Buffer.alloc(MEDIA_MAC_LENGTH)
+		const encFile = await fs.open(encPath, 'r')
+		await encFile.read(mac, 0, MEDIA_MAC_LENGTH, encLength).finally(() => encFile.close())
+
+		const hmac = Crypto.createHmac('sha256', macKey!).update(iv)
+		const sha256Enc = Crypto.createHash('sha256')
+		for await (const data of readCiphertext()) {
+			hmac.update(data)
+			sha256Enc.update(data)
+		}
+
+		if (!hmac.digest().subarray(0, MEDIA_MAC_LENGTH).equals(mac)) {
+			throw integrityError('mac')
+		}
+
+		if (fileEncSha256 && !sha256Enc.update(mac).digest().equals(Buffer.from(fileEncSha256))) {
+			throw integrityError('file-enc-sha256')
+		}
+	}
+
+	let offset = await fs.stat(encPath).then(
+		({ size }) => size,
+		() => 0
+	)
+	for (;;) {
+		await download(offset)
+		try {
+			await verify()
+			break
+		} catch (error) {
+			// corrupt, so it's downloaded again from the start
+			await fs.unlink(encPath).catch(() => {})
+			// the partial file may have been stale, so a resumed download is retried once from the start
+			if (!offset) {
+				throw error
+			}
+
+			offset = 0
+		}
+	}
+
+	const tmpPath = `${path}.${generateMessageIDV2()}.tmp`
+	const sha256Plain = Crypto.createHash('sha256')
+	try {
+		await pipeline(
+			readCiphertext(),
+			Crypto.createDecipheriv('aes-256-cbc', cipherKey, iv),
+			new Transform({
+				transform(chunk, _, callback) {
+					sha256Plain.update(chunk)
+					callback(null, chunk)
+				}
+			}),
+			createWriteStream(tmpPath)
+		)
+		if (fileSha256 && !sha256Plain.digest().equals(Buffer.from(fileSha256))) {
+			throw integrityError('file-sha256')
+		}
+
+		await fs.rename(tmpPath, path)
+	} catch (error) {
+		await fs.unlink(tmpPath).catch(() => {})
+		throw error
+	} finally {
+		await fs.unlink(encPath).catch(() => {})
+	}
+}
+
 /**
  * Decrypts and downloads an AES256-CBC encrypted file given the keys.
  * Assumes the SHA256 of the plaintext is appended to the end of the ciphertext
@@ -691,74 +1025,190 @@ export function extensionForMediaMessage(message: WAMessageContent) {
 	return extension
 }
 
+/** files from this size are checked for a partial upload first, so an interrupted upload continues where it stopped */
+export const RESUMABLE_UPLOAD_MIN_BYTES = 5 * 1024 * 1024
+/** uploads are attempted at least this many times, rotating through the hosts */
+const MIN_UPLOAD_ATTEMPTS = 3
+/** hosts that failed are tried last for this long */
+const UPLOAD_HOST_COOLDOWN_MS = 5 * 60 * 1000
+
+/** upload errors that fail the same way on every host */
+const isPermanentUploadError = (status: number | undefined) =>
+	!!status && status >= 400 && status < 500 && ![401, 403, 408, 429].includes(status)
+
+type UploadResult = Awaited<ReturnType<WAMediaUploadFunction>>
+
+/** what the upload hosts respond with */
+type UploadResponse = {
+	url?: string
+	direct_path?: string
+	meta_hmac?: string
+	fbid?: number
+	ts?: number
+	/** bytes the host has of a partial upload, or 'complete' */
+	resume?: string | number
+}
+
 export const getWAUploadToServer = (
 	{ customUploadHosts, fetchAgent, logger, options }: SocketConfig,
 	refreshMediaConn: (force: boolean) => Promise<MediaConnInfo>
 ): WAMediaUploadFunction => {
-	return async (filePath, { mediaType, fileEncSha256B64, timeoutMs }) => {
+	/** consecutive failures of each host, cleared once an upload to it succeeds */
+	const hostHealth = new Map<string, { failures: number; failedAt: number }>()
+
+	const markHostResult = (hostname: string, isSuccess: boolean) => {
+		if (isSuccess) {
+			hostHealth.delete(hostname)
+		} else {
+			hostHealth.set(hostname, { failures: (hostHealth.get(hostname)?.failures || 0) + 1, failedAt: Date.now() })
+		}
+	}
+
+	/** the custom hosts & the ones from the media conn, the hosts that failed recently last */
+	const getHosts = ({ hosts }: MediaConnInfo) => {
+		const isHealthy = (hostname: string) => {
+			const health = hostHealth.get(hostname)
+			return !health || Date.now() - health.failedAt > UPLOAD_HOST_COOLDOWN_MS
+		}
+
+		const hostnames = [...new Set([...customUploadHosts, ...hosts].map(({ hostname }) => hostname))]
+		return [
+			...hostnames.filter(isHealthy),
+			...hostnames
+				.filter(hostname => !isHealthy(hostname))
+				.sort((a, b) => hostHealth.get(a)!.failures - hostHealth.get(b)!.failures)
+		]
+	}
+
+	const post = (
+		url: string,
+		body: Readable | string,
+		headers: { [key: string]: string | number },
+		timeoutMs?: number
+	) =>
+		axios.post<UploadResponse | undefined>(url, body, {
+			...(options as any),
+			maxRedirects: 0,
+			headers: {
+				...(options.headers || {}),
+				'Content-Type': 'application/octet-stream',
+				Origin: DEFAULT_ORIGIN,
+				...headers
+			},
+			httpsAgent: fetchAgent,
+			timeout: timeoutMs,
+			responseType: 'json',
+			maxBodyLength: Infinity,
+			maxContentLength: Infinity
+		})
+
+	const getUploadResult = (result: UploadResponse | undefined): UploadResult | undefined =>
+		result?.url || result?.direct_path
+			? {
+					mediaUrl: result.url!,
+					directPath: result.direct_path!,
+					meta_hmac: result.meta_hmac,
+					fbid: result.fbid,
+					ts: result.ts
+				}
+			: undefined
+
+	/** how much of the file the host already has, or the result if it has all of it */
+	const checkResume = async (url: string, timeoutMs?: number) => {
+		const { data } = await post(`${url}&resume=1`, '', {}, timeoutMs)
+		const offset = Number(data?.resume)
+		return {
+			result: data?.resume === 'complete' ? getUploadResult(data) : undefined,
+			offset: Number.isInteger(offset) && offset > 0 ? offset : 0
+		}
+	}
+
+	return async (filePath, { mediaType, fileEncSha256B64, timeoutMs, onProgress }) => {
 		// send a query JSON to obtain the url & auth token to upload our media
 		let uploadInfo = await refreshMediaConn(false)
-
-		let urls: { mediaUrl: string; directPath: string; meta_hmac?: string; ts?: number; fbid?: number } | undefined
-		const hosts = [...customUploadHosts, ...uploadInfo.hosts]
+		let hosts = getHosts(uploadInfo)
+		const { size: total } = await fs.stat(filePath)
 
 		fileEncSha256B64 = encodeBase64EncodedStringForUpload(fileEncSha256B64)
 
-		for (const { hostname } of hosts) {
-			logger.debug(`uploading to "${hostname}"`)
+		/** attempts of this upload on each host, so every host is tried before one is retried */
+		const hostAttempts = new Map<string, number>()
+		const attempts = Math.max(hosts.length, MIN_UPLOAD_ATTEMPTS)
+		for (let attempt = 0; attempt < attempts; attempt++) {
+			const hostname = hosts.reduce((next, host) =>
+				(hostAttempts.get(host) || 0) < (hostAttempts.get(next) || 0) ? host : next
+			)
+			hostAttempts.set(hostname, (hostAttempts.get(hostname) || 0) + 1)
+			logger.debug({ attempt, total }, `uploading to "${hostname}"`)
 
 			const auth = encodeURIComponent(uploadInfo.auth) // the auth token
 			const url = `https://${hostname}${MEDIA_PATH_MAP[mediaType]}/${fileEncSha256B64}?auth=${auth}&token=${fileEncSha256B64}`
-			// eslint-disable-next-line @typescript-eslint/no-explicit-any
-			let result: any
+			let result: UploadResponse | undefined
 			try {
-				const body = await axios.post(url, createReadStream(filePath), {
-					...(options as any),
-					maxRedirects: 0,
-					headers: {
-						...(options.headers || {}),
-						'Content-Type': 'application/octet-stream',
-						Origin: DEFAULT_ORIGIN
-					},
-					httpsAgent: fetchAgent,
-					timeout: timeoutMs,
-					responseType: 'json',
-					maxBodyLength: Infinity,
-					maxContentLength: Infinity
-				})
-				result = body.data
-
-				if (result?.url || result?.directPath) {
-					urls = {
-						mediaUrl: result.url,
-						directPath: result.direct_path,
-						meta_hmac: result.meta_hmac,
-						fbid: result.fbid,
-						ts: result.ts
+				let offset = 0
+				if (total >= RESUMABLE_UPLOAD_MIN_BYTES) {
+					const resume = await checkResume(url, timeoutMs)
+					if (resume.result) {
+						markHostResult(hostname, true)
+						onProgress?.({ uploaded: total, total, hostname })
+						return resume.result
 					}
-					break
-				} else {
-					uploadInfo = await refreshMediaConn(true)
-					throw new Error(`upload failed, reason: ${JSON.stringify(result)}`)
+
+					offset = resume.offset
+					offset && logger.debug({ offset, total }, `resuming upload to "${hostname}"`)
 				}
+
+				let uploaded = offset
+				const body = createReadStream(filePath, { start: offset }).pipe(
+					new Transform({
+						transform(chunk: Buffer, _, callback) {
+							uploaded += chunk.length
+							onProgress?.({ uploaded, total, hostname })
+							callback(null, chunk)
+						}
+					})
+				)
+				const response = await post(
+					offset ? `${url}&file_offset=${offset}` : url,
+					body,
+					{ 'Content-Length': total - offset },
+					timeoutMs
+				)
+				result = response.data
+
+				const uploadResult = getUploadResult(result)
+				if (uploadResult) {
+					markHostResult(hostname, true)
+					return uploadResult
+				}
+
+				throw new Error(`upload failed, reason: ${JSON.stringify(result)}`)
 			} catch (error: any) {
 				if (axios.isAxiosError(error)) {
 					result = error.response?.data
+					// eg. the file is too large, no host will take it
+					if (isPermanentUploadError(error.response?.status)) {
+						logger.warn({ uploadResult: result, hostname }, 'upload rejected')
+						throw new Boom('Media upload rejected', { statusCode: error.response!.status, data: result })
+					}
 				}
 
-				const isLast = hostname === hosts[uploadInfo.hosts.length - 1]?.hostname
+				markHostResult(hostname, false)
+				const isLast = attempt === attempts - 1
 				logger.warn(
 					{ trace: error?.stack, uploadResult: result },
 					`Error in uploading to ${hostname} ${isLast ? '' : ', retrying...'}`
 				)
-			}
-		}
 
-		if (!urls) {
-			throw new Boom('Media upload failed on all hosts', { statusCode: 500 })
+				// the host responded, so the auth token may have expired
+				if (!isLast && (!axios.isAxiosError(error) || error.response)) {
+					uploadInfo = await refreshMediaConn(true)
+					hosts = getHosts(uploadInfo)
+				}
+			}
 		}
 
-		return urls
+		throw new Boom('Media upload failed on all hosts', { statusCode: 500 })
 	}
 }
 
@@ -827,7 +1277,7 @@ export const decodeMediaRetryNode = (node: BinaryNode) => {
 	if (errorNode) {
 		const errorCode = +errorNode.attrs.code!
 		event.error = new Boom(`Failed to re-upload media (${errorCode})`, {
-			data: errorNode.attrs,
+			data: { ...errorNode.attrs, result: getMediaRetryResult(errorCode) },
 			statusCode: getStatusCodeForMediaRetry(errorCode)
 		})
 	} else {
@@ -857,6 +1307,16 @@ export const decryptMediaRetryData = async (
 export const getStatusCodeForMediaRetry = (code: number) =>
 	MEDIA_RETRY_STATUS_MAP[code as proto.MediaRetryNotification.ResultType]
 
+export const getMediaRetryResult = (code: number): MediaRetryResult =>
+	MEDIA_RETRY_RESULT_MAP[code as proto.MediaRetryNotification.ResultType] || 'general-error'
+
+const MEDIA_RETRY_RESULT_MAP: { [T in proto.MediaRetryNotification.ResultType]: MediaRetryResult } = {
+	[proto.MediaRetryNotification.ResultType.SUCCESS]: 'success',
+	[proto.MediaRetryNotification.ResultType.DECRYPTION_ERROR]: 'decryption-error',
+	[proto.MediaRetryNotification.ResultType.NOT_FOUND]: 'not-found',
+	[proto.MediaRetryNotification.ResultType.GENERAL_ERROR]: 'general-error'
+}
+
 const MEDIA_RETRY_STATUS_MAP = {
 	[proto.MediaRetryNotification.ResultType.SUCCESS]: 200,
 	[proto.MediaRetryNotification.ResultType.DECRYPTION_ERROR]: 412,
@@ -2,6 +2,7 @@ import { Boom } from '@hapi/boom'
 import axios from 'axios'
 import { randomBytes } from 'crypto'
 import { promises as fs } from 'fs'
+import { LRUCache } from 'lru-cache'
 import { type Transform } from 'stream'
 import { proto } from '../../WAProto/index.js'
 import {
@@ -13,9 +14,12 @@ import {
 	WA_DEFAULT_EPHEMERAL
 } from '../Defaults'
 import type {
+	AlbumMediaContent,
 	AnyMediaMessageContent,
 	AnyMessageContent,
+	CachedMediaUpload,
 	DownloadableMessage,
+	InteractiveResponse,
 	MessageContentGenerationOptions,
 	MessageGenerationOptions,
 	MessageGenerationOptionsFromContent,
@@ -28,19 +32,24 @@ import type {
 	WATextMessage
 } from '../Types'
 import { WAMessageStatus, WAProto } from '../Types'
-import { isJidGroup, isJidNewsletter, isJidStatusBroadcast, jidNormalizedUser } from '../WABinary'
+import { type BinaryNode, isJidGroup, isJidNewsletter, isJidStatusBroadcast, jidNormalizedUser } from '../WABinary'
 import { sha256 } from './crypto'
 import { generateMessageIDV2, getKeyAuthor, unixTimestampSeconds } from './generics'
+import { generateInteractiveMessage } from './interactive-messages'
 import type { ILogger } from './logger'
 import {
 	convertAudioToPTTFormat,
 	downloadContentFromMessage,
+	downloadVerifiedContentToFile,
 	encryptedStream,
 	generateThumbnail,
 	getAudioDuration,
 	getAudioWaveform,
+	getMediaContentHash,
 	getRawMediaUploadData,
-	type MediaDownloadOptions
+	getResumableUploadHash,
+	type MediaDownloadOptions,
+	prepareVideoForWhatsApp
 } from './messages-media'
 
 type MediaUploadData = {
@@ -117,6 +126,40 @@ const assertColor = async (color: any) => {
 	}
 }
 
+/** how long media uploads are reused for by default */
+const MEDIA_UPLOAD_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000
+/** media is removed from WA's servers after about 30 days, so uploads are never reused for longer */
+const MEDIA_SERVER_TTL_MS = 29 * 24 * 60 * 60 * 1000
+
+/**
+ * keys of the uploads that failed, by the hash of their media.
+ * Sending the media again (eg. once reconnected) encrypts it with the same key,
+ * so it encrypts to the same file & the upload resumes from what the host already has
+ */
+const interruptedUploadKeys = new LRUCache<string, Buffer>({ max: 100, ttl: 60 * 60 * 1000 })
+
+/** the media message of an upload, with the fields from the content (eg. the caption) */
+const toMediaMessage = (
+	mediaType: MediaType,
+	upload: Omit<CachedMediaUpload, 'expiresAt'>,
+	uploadData: MediaUploadData
+) => {
+	const obj = WAProto.Message.fromObject({
+		[`${mediaType}Message`]: MessageTypeProto[mediaType as keyof typeof MessageTypeProto].fromObject({
+			...upload,
+			...uploadData,
+			media: undefined
+		} as any)
+	})
+
+	if (uploadData.ptv) {
+		obj.ptvMessage = obj.videoMessage
+		delete obj.videoMessage
+	}
+
+	return obj
+}
+
 export const prepareWAMessageMedia = async (
 	message: AnyMediaMessageContent,
 	options: MessageContentGenerationOptions
@@ -182,7 +225,8 @@ export const prepareWAMessageMedia = async (
 		const { mediaUrl, directPath } = await options.upload(filePath, {
 			fileEncSha256B64: fileSha256B64,
 			mediaType: mediaType,
-			timeoutMs: options.mediaUploadTimeoutMs
+			timeoutMs: options.mediaUploadTimeoutMs,
+			onProgress: options.onUploadProgress
 		})
 
 		await fs.unlink(filePath)
@@ -234,6 +278,20 @@ export const prepareWAMessageMedia = async (
 			originalMimetype: uploadData.mimetype
 		}, '?? AUDIO DEBUG: Verificando condi��es para convers�o PTT')
 	}
+
+	const requiresVideoTransformation = !!options.transformVideo && mediaType === 'video'
+
+	// converted media differs from the content it's converted from, so it's not reused
+	let uploadCacheKey: string | undefined
+	if (options.mediaUploadCache && !requiresAudioTransformation && !requiresVideoTransformation) {
+		const contentHash = await getMediaContentHash(uploadData.media)
+		uploadCacheKey = contentHash && `${options.mediaTypeOverride || mediaType}:${contentHash.toString('hex')}`
+		const cached = uploadCacheKey && (await options.mediaUploadCache.get<CachedMediaUpload>(uploadCacheKey))
+		if (cached && cached.expiresAt > Date.now()) {
+			logger?.debug({ uploadCacheKey }, 'got media upload cache hit')
+			return toMediaMessage(mediaType, cached, uploadData)
+		}
+	}
 	
 	// Track converted file path for cleanup
 	let convertedFilePath: string | undefined
@@ -324,15 +382,55 @@ export const prepareWAMessageMedia = async (
 		}
 	}
 
+	// the video, & its transcoded version, are written to disk to be probed & transcoded
+	const videoFilePaths: string[] = []
+	if (requiresVideoTransformation) {
+		const { filePath } = await getRawMediaUploadData(uploadData.media, mediaType, logger)
+		videoFilePaths.push(filePath)
+		uploadData.media = { url: filePath }
+		try {
+			const { probe, filePath: transcodedFilePath } = await prepareVideoForWhatsApp(filePath, {
+				...(typeof options.transformVideo === 'object' ? options.transformVideo : {}),
+				ptv: uploadData.ptv,
+				logger
+			})
+			if (transcodedFilePath) {
+				videoFilePaths.push(transcodedFilePath)
+				uploadData.media = { url: transcodedFilePath }
+				uploadData.mimetype = 'video/mp4'
+				// the dimensions of the original no longer apply
+				uploadData.width = probe.width
+				uploadData.height = probe.height
+			}
+
+			uploadData.seconds ??= probe.seconds
+			uploadData.width ??= probe.width
+			uploadData.height ??= probe.height
+		} catch (error: unknown) {
+			if (error instanceof Boom && error.output.statusCode === 413) {
+				await fs.unlink(filePath)
+				throw error
+			}
+
+			logger?.warn({ trace: error instanceof Error ? error.stack : error }, 'failed to prepare video, sending it as is')
+		}
+	}
+
+	const resumableHash = await getResumableUploadHash(uploadData.media)
+	const resumableKey = resumableHash && `${options.mediaTypeOverride || mediaType}:${resumableHash.toString('hex')}`
 	const { mediaKey, encFilePath, originalFilePath, fileEncSha256, fileSha256, fileLength } = await encryptedStream(
 		uploadData.media,
 		options.mediaTypeOverride || mediaType,
 		{
 			logger,
 			saveOriginalFileIfRequired: requiresOriginalForSomeProcessing,
-			opts: options.options
+			opts: options.options,
+			mediaKey: resumableKey ? interruptedUploadKeys.get(resumableKey) : undefined
 		}
 	)
+	if (resumableKey) {
+		interruptedUploadKeys.set(resumableKey, mediaKey)
+	}
 
 	const fileEncSha256B64 = fileEncSha256.toString('base64')
 	
@@ -342,9 +440,14 @@ export const prepareWAMessageMedia = async (
 			const result = await options.upload(encFilePath, {
 				fileEncSha256B64,
 				mediaType,
-				timeoutMs: options.mediaUploadTimeoutMs
+				timeoutMs: options.mediaUploadTimeoutMs,
+				onProgress: options.onUploadProgress
 			})
 			logger?.debug({ mediaType, cacheableKey }, 'uploaded media')
+			if (resumableKey) {
+				interruptedUploadKeys.delete(resumableKey)
+			}
+
 			return result
 		})(),
 		(async () => {
@@ -353,7 +456,7 @@ export const prepareWAMessageMedia = async (
 					const { thumbnail, originalImageDimensions } = await generateThumbnail(
 						originalFilePath!,
 						mediaType as 'image' | 'video',
-						options
+						{ logger, videoSeconds: uploadData.seconds }
 					)
 					uploadData.jpegThumbnail = thumbnail
 					if (!uploadData.width && originalImageDimensions) {
@@ -403,28 +506,39 @@ export const prepareWAMessageMedia = async (
 			logger?.debug({ convertedFilePath }, 'removed converted audio file')
 		}
 
+		for (const filePath of videoFilePaths) {
+			await fs.unlink(filePath)
+		}
+
 		logger?.debug('removed tmp files')
 	} catch (error) {
 		logger?.warn({ error }, 'failed to remove tmp file')
 	}
 
-	const obj = WAProto.Message.fromObject({
-		[`${mediaType}Message`]: MessageTypeProto[mediaType as keyof typeof MessageTypeProto].fromObject({
-			url: mediaUrl,
-			directPath,
-			mediaKey,
-			fileEncSha256,
-			fileSha256,
-			fileLength,
-			mediaKeyTimestamp: unixTimestampSeconds(),
-			...uploadData,
-			media: undefined
-		} as any)
-	})
-
-	if (uploadData.ptv) {
-		obj.ptvMessage = obj.videoMessage
-		delete obj.videoMessage
+	const upload = {
+		url: mediaUrl,
+		directPath,
+		mediaKey,
+		mediaKeyTimestamp: unixTimestampSeconds(),
+		fileEncSha256,
+		fileSha256,
+		fileLength
+	}
+	const obj = toMediaMessage(mediaType, upload, uploadData)
+
+	if (uploadCacheKey) {
+		const { jpegThumbnail, width, height, seconds, waveform } = uploadData
+		const ttlMs = Math.min(options.mediaUploadCacheTtlMs ?? MEDIA_UPLOAD_CACHE_TTL_MS, MEDIA_SERVER_TTL_MS)
+		logger?.debug({ uploadCacheKey }, 'set media upload cache')
+		await options.mediaUploadCache!.set<CachedMediaUpload>(uploadCacheKey, {
+			...upload,
+			jpegThumbnail,
+			width,
+			height,
+			seconds,
+			waveform,
+			expiresAt: Date.now() + ttlMs
+		})
 	}
 
 	if (cacheableKey) {
@@ -607,8 +721,9 @@ export const generateWAMessageContent = async (
 				break
 		}
 	} else if ('ptv' in message && message.ptv) {
-		const { videoMessage } = await prepareWAMessageMedia({ video: message.video }, options)
-		m.ptvMessage = videoMessage
+		// flagged so the video is prepared as a video note, eg. cropped to a square
+		const { videoMessage, ptvMessage } = await prepareWAMessageMedia({ video: message.video, ptv: true }, options)
+		m.ptvMessage = ptvMessage || videoMessage
 	} else if ('product' in message) {
 		const { imageMessage } = await prepareWAMessageMedia({ image: message.product.productImage }, options)
 		m.productMessage = WAProto.Message.ProductMessage.create({
@@ -697,6 +812,15 @@ export const generateWAMessageContent = async (
 	}
 	} else if ('interactiveMessage' in message) {
 		m.interactiveMessage = message.interactiveMessage
+	} else if ('interactive' in message) {
+		m.interactiveMessage = await generateInteractiveMessage(message.interactive, media =>
+			prepareWAMessageMedia(media, options)
+		)
+	} else if ('album' in message) {
+		m.albumMessage = {
+			expectedImageCount: message.album.filter(item => 'image' in item).length,
+			expectedVideoCount: message.album.filter(item => 'video' in item).length
+		}
 	} else {
 		m = await prepareWAMessageMedia(message, options)
 	}
@@ -895,6 +1019,38 @@ export const generateWAMessage = async (jid: string, content: AnyMessageContent,
 	return generateWAMessageFromContent(jid, await generateWAMessageContent(content, { ...options, jid }), options)
 }
 
+/**
+ * Generates an album message & the messages of its items, linked to it.
+ * The items are uploaded in parallel
+ */
+export const generateWAAlbumMessages = async (
+	jid: string,
+	album: AlbumMediaContent[],
+	options: MessageGenerationOptions
+) => {
+	if (album.length < 2) {
+		throw new Boom('An album needs at least 2 items', { statusCode: 400 })
+	}
+
+	const [parent, ...contents] = await Promise.all([
+		generateWAMessage(jid, { album }, options),
+		...album.map(item => generateWAMessageContent(item, { ...options, jid }))
+	])
+	const items = contents.map(content => {
+		content.messageContextInfo = {
+			...content.messageContextInfo,
+			messageAssociation: {
+				associationType: proto.MessageAssociation.AssociationType.MEDIA_ALBUM,
+				parentMessageKey: parent.key
+			}
+		}
+		// the items get their own IDs, & only the album quotes
+		return generateWAMessageFromContent(jid, content, { ...options, messageId: undefined, quoted: undefined })
+	})
+
+	return { parent, items }
+}
+
 /** Get the key to access the true type of content */
 export const getContentType = (content: proto.IMessage | undefined) => {
 	if (content) {
@@ -1087,6 +1243,82 @@ export function getAggregateVotesInPollMessage(
 	return Object.values(voteHashMap)
 }
 
+/** the `biz` node sent along an interactive message, without it the official clients don't render it */
+export const getInteractiveBizNode = (message: proto.IMessage): BinaryNode | undefined => {
+	const interactive = normalizeMessageContent(message)?.interactiveMessage
+	if (!interactive) {
+		return
+	}
+
+	const isPayment = interactive.nativeFlowMessage?.buttons?.some(({ name }) => name === 'payment_info')
+	return {
+		tag: 'biz',
+		attrs: {},
+		content: [
+			{
+				tag: 'interactive',
+				attrs: isPayment ? { v: '1', type: 'native_flow' } : { type: 'native_flow' },
+				content: [{ tag: 'native_flow', attrs: isPayment ? { name: 'payment_info' } : { v: '2', name: 'mixed' } }]
+			}
+		]
+	}
+}
+
+/** the reply to an interactive (or legacy buttons & list) message, undefined if the message is not a reply */
+export const parseInteractiveResponse = (
+	message: proto.IMessage | null | undefined
+): InteractiveResponse | undefined => {
+	const content = normalizeMessageContent(message)
+	if (content?.buttonsResponseMessage) {
+		const { selectedButtonId, selectedDisplayText } = content.buttonsResponseMessage
+		return { type: 'button', id: selectedButtonId || '', text: selectedDisplayText || undefined }
+	}
+
+	if (content?.templateButtonReplyMessage) {
+		const { selectedId, selectedDisplayText } = content.templateButtonReplyMessage
+		return { type: 'button', id: selectedId || '', text: selectedDisplayText || undefined }
+	}
+
+	if (content?.listResponseMessage) {
+		const { singleSelectReply, title, description } = content.listResponseMessage
+		return {
+			type: 'list',
+			id: singleSelectReply?.selectedRowId || '',
+			title: title || undefined,
+			description: description || undefined
+		}
+	}
+
+	const response = content?.interactiveResponseMessage
+	const flow = response?.nativeFlowResponseMessage
+	if (!flow) {
+		return
+	}
+
+	let params: { [key: string]: unknown } = {}
+	try {
+		params = JSON.parse(flow.paramsJson || '{}')
+	} catch {
+		// not JSON, left empty
+	}
+
+	const id = typeof params.id === 'string' ? params.id : undefined
+	if (id && flow.name === 'single_select') {
+		return {
+			type: 'list',
+			id,
+			title: typeof params.title === 'string' ? params.title : undefined,
+			description: typeof params.description === 'string' ? params.description : undefined
+		}
+	}
+
+	if (id && (!flow.name || flow.name === 'quick_reply')) {
+		return { type: 'button', id, text: response.body?.text || undefined }
+	}
+
+	return { type: 'native-flow', name: flow.name || '', params }
+}
+
 /** Given a list of message keys, aggregates them by chat & sender. Useful for sending read receipts in bulk */
 export const aggregateMessageKeysNotFromMe = (keys: WAMessageKey[]) => {
 	const keyMap: { [id: string]: { jid: string; participant: string | undefined; messageIds: string[] } } = {}
@@ -1181,6 +1413,44 @@ export const downloadMediaMessage = async <Type extends 'buffer' | 'stream'>(
 	}
 }
 
+/**
+ * Downloads the media of the message to a file, once its MAC & hashes are verified -- so the file is never partially written.
+ * Interrupted downloads are resumed on the next call with the same path.
+ * Throws a 422 error with the failed `check` in its data when the media fails verification
+ */
+export const downloadMediaToFile = async (
+	message: WAMessage,
+	path: string,
+	options: Pick<MediaDownloadOptions, 'options'> = {},
+	ctx?: DownloadMediaMessageContext
+) => {
+	const download = async () => {
+		const content = extractMessageContent(message.message)
+		const contentType = content && getContentType(content)
+		const media = contentType && content[contentType]
+		if (!media || typeof media !== 'object' || !('url' in media)) {
+			throw new Boom(`"${contentType}" message is not a media message`, { statusCode: 400 })
+		}
+
+		const mediaType = contentType.replace('Message', '') as MediaType
+		await downloadVerifiedContentToFile(media, mediaType, path, options)
+	}
+
+	try {
+		await download()
+	} catch (error) {
+		if (!ctx || !axios.isAxiosError(error) || !REUPLOAD_REQUIRED_STATUS.includes(error.response?.status!)) {
+			throw error
+		}
+
+		ctx.logger.info({ key: message.key }, 'sending reupload media request...')
+		message = await ctx.reuploadRequest(message)
+		await download()
+	}
+
+	return path
+}
+
 /** Checks whether the given message is a media message; if it is returns the inner content */
 export const assertMediaContent = (content: proto.IMessage | null | undefined) => {
 	content = extractMessageContent(content)
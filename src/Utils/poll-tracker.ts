@@ -0,0 +1,213 @@
+import { LRUCache } from 'lru-cache'
+import type { proto } from '../../WAProto/index.js'
+import type {
+	AuthenticationCreds,
+	BaileysEventEmitter,
+	PollTally,
+	TrackPollOptions,
+	WAMessage,
+	WAMessageKey
+} from '../Types'
+import { jidNormalizedUser } from '../WABinary'
+import { sha256 } from './crypto'
+import { getKeyAuthor, toNumber } from './generics'
+import type { ILogger } from './logger'
+import { makeMutex } from './make-mutex'
+import { normalizeMessageContent } from './messages'
+import { decryptMessageAddon, decryptPollVote } from './process-message'
+
+export type PollTrackerConfig = {
+	ev: BaileysEventEmitter
+	logger: ILogger
+	creds: AuthenticationCreds
+	/** looks up the creation message of polls not seen on the socket */
+	getMessage: (key: WAMessageKey) => Promise<proto.IMessage | undefined>
+}
+
+/** polls kept in memory, the least recently voted on are dropped first */
+const MAX_TRACKED_POLLS = 1000
+
+type TrackedPoll = {
+	key: WAMessageKey
+	name: string
+	options: string[]
+	/** option names by the hex SHA256 hash votes refer to them with */
+	optionsByHash: Map<string, string>
+	secret: Uint8Array
+	votes: Map<string, { options: string[]; timestampMs: number }>
+	closesAt?: number
+}
+
+const getPollCreation = (message: proto.IMessage | null | undefined) => {
+	const content = normalizeMessageContent(message)
+	return content?.pollCreationMessage || content?.pollCreationMessageV2 || content?.pollCreationMessageV3
+}
+
+/**
+ * keeps the live results of polls, from the votes received on the socket.
+ * Votes are decrypted with the `messageSecret` of the poll creation message,
+ * & only the latest vote of each voter is counted
+ */
+export const makePollTracker = ({ ev, logger, creds, getMessage }: PollTrackerConfig) => {
+	const { mutex } = makeMutex()
+	const polls = new LRUCache<string, TrackedPoll>({ max: MAX_TRACKED_POLLS })
+
+	const register = ({ key, message }: Pick<WAMessage, 'key' | 'message'>) => {
+		const creation = getPollCreation(message)
+		const secret = message?.messageContextInfo?.messageSecret
+		if (!creation || !secret) {
+			return
+		}
+
+		let poll = polls.get(key.id!)
+		if (!poll) {
+			const options = creation.options?.map(({ optionName }) => optionName || '') || []
+			poll = {
+				key,
+				name: creation.name || '',
+				options,
+				optionsByHash: new Map(options.map(name => [sha256(Buffer.from(name)).toString('hex'), name])),
+				secret,
+				votes: new Map()
+			}
+			polls.set(key.id!, poll)
+		}
+
+		return poll
+	}
+
+	const loadPoll = async (key: WAMessageKey) => {
+		const poll = polls.get(key.id!)
+		if (poll) {
+			return poll
+		}
+
+		const message = await getMessage(key)
+		return register({ key, message })
+	}
+
+	const getTally = ({ key, name, options, votes, closesAt }: TrackedPoll): PollTally => ({
+		key,
+		name,
+		options: options.map(option => ({
+			name: option,
+			voters: [...votes].filter(([, vote]) => vote.options.includes(option)).map(([voter]) => voter)
+		})),
+		votes: Object.fromEntries([...votes].map(([voter, vote]) => [voter, vote.options])),
+		closesAt
+	})
+
+	const applyVote = (poll: TrackedPoll, voter: string, selectedOptions: Uint8Array[], timestampMs: number) => {
+		if (poll.closesAt && timestampMs > poll.closesAt) {
+			logger.debug({ pollId: poll.key.id, voter }, 'ignoring vote after poll closed')
+			return
+		}
+
+		const existing = poll.votes.get(voter)
+		if (existing && existing.timestampMs > timestampMs) {
+			return
+		}
+
+		const options = selectedOptions
+			.map(hash => poll.optionsByHash.get(Buffer.from(hash).toString('hex')))
+			.filter(option => option !== undefined)
+		if (options.length) {
+			poll.votes.set(voter, { options, timestampMs })
+		} else {
+			poll.votes.delete(voter)
+		}
+
+		ev.emit('poll.tally', getTally(poll))
+	}
+
+	ev.on('messages.upsert', ({ messages }) => {
+		for (const msg of messages) {
+			const content = normalizeMessageContent(msg.message)
+			if (getPollCreation(msg.message)) {
+				register(msg)
+			}
+
+			const update = content?.pollUpdateMessage
+			if (!update?.vote || !update.pollCreationMessageKey) {
+				continue
+			}
+
+			mutex(async () => {
+				const poll = await loadPoll(update.pollCreationMessageKey!)
+				if (!poll) {
+					logger.debug({ key: update.pollCreationMessageKey }, 'poll creation message not found, ignoring vote')
+					return
+				}
+
+				const decrypted = decryptMessageAddon(
+					{ creatorKey: poll.key, senderKey: msg.key, me: creds.me },
+					(pollCreatorJid, voterJid) =>
+						decryptPollVote(update.vote!, {
+							pollCreatorJid,
+							pollMsgId: poll.key.id!,
+							pollEncKey: poll.secret,
+							voterJid
+						})
+				)
+				if (!decrypted) {
+					logger.warn({ key: msg.key, pollId: poll.key.id }, 'failed to decrypt poll vote')
+					return
+				}
+
+				const timestampMs = toNumber(update.senderTimestampMs) || toNumber(msg.messageTimestamp) * 1000
+				applyVote(poll, decrypted.sender, decrypted.result.selectedOptions || [], timestampMs)
+			}).catch(error => logger.error({ error, key: msg.key }, 'failed to process poll vote'))
+		}
+	})
+
+	// votes decrypted elsewhere, eg. from history
+	ev.on('messages.update', updates => {
+		for (const { key, update } of updates) {
+			if (!update.pollUpdates?.length) {
+				continue
+			}
+
+			mutex(async () => {
+				const poll = await loadPoll(key)
+				for (const { pollUpdateMessageKey, vote, senderTimestampMs } of (poll && update.pollUpdates) || []) {
+					const voter = jidNormalizedUser(getKeyAuthor(pollUpdateMessageKey, creds.me?.id))
+					applyVote(poll!, voter, vote?.selectedOptions || [], toNumber(senderTimestampMs))
+				}
+			}).catch(error => logger.error({ error, key }, 'failed to process poll updates'))
+		}
+	})
+
+	return {
+		/**
+		 * start tracking a poll, polls seen on the socket are tracked automatically
+		 * @returns the current results, undefined if the message is not a poll with a secret
+		 */
+		track: (msg: Pick<WAMessage, 'key' | 'message'>, { closesAt }: TrackPollOptions = {}) =>
+			mutex(async () => {
+				const poll = register(msg)
+				if (poll && closesAt !== undefined) {
+					poll.closesAt = typeof closesAt === 'number' ? closesAt : closesAt.getTime()
+				}
+
+				return poll && getTally(poll)
+			}),
+		/** ignore votes cast after the given time, defaults to now */
+		close: (key: WAMessageKey, at: Date | number = Date.now()) =>
+			mutex(async () => {
+				const poll = await loadPoll(key)
+				if (poll) {
+					poll.closesAt = typeof at === 'number' ? at : at.getTime()
+				}
+
+				return poll && getTally(poll)
+			}),
+		getTally: (key: WAMessageKey) =>
+			mutex(async () => (polls.has(key.id!) ? getTally(polls.get(key.id!)!) : undefined)),
+		/** stop tracking a poll */
+		forget: (key: WAMessageKey) => {
+			polls.delete(key.id!)
+		}
+	}
+}
+
+export type PollTracker = ReturnType<typeof makePollTracker>
@@ -1,4 +1,5 @@
 import type { AxiosRequestConfig } from 'axios'
+import { randomBytes } from 'crypto'
 import { proto } from '../../WAProto/index.js'
 import type {
 	AuthenticationCreds,
@@ -28,8 +29,8 @@ import {
 	jidEncode,
 	jidNormalizedUser
 } from '../WABinary'
-import { aesDecryptGCM, hmacSign } from './crypto'
-import { toNumber } from './generics'
+import { aesDecryptGCM, aesEncryptGCM, hmacSign } from './crypto'
+import { getKeyAuthor, toNumber } from './generics'
 import { downloadAndProcessHistorySyncNotification } from './history'
 import type { ILogger } from './logger'
 
@@ -84,24 +85,33 @@ export const cleanMessage = (message: WAMessage, meId: string, meLid: string) =>
 		normaliseKey(content.pollUpdateMessage.pollCreationMessageKey!)
 	}
 
+	if (content?.encEventResponseMessage) {
+		normaliseKey(content.encEventResponseMessage.eventCreationMessageKey!)
+	}
+
 	function normaliseKey(msgKey: WAMessageKey) {
-		// if the reaction is from another user
-		// we've to correctly map the key to this user's perspective
-		if (!message.key.fromMe) {
-			// if the sender believed the message being reacted to is not from them
-			// we've to correct the key to be from them, or some other participant
-			msgKey.fromMe = !msgKey.fromMe
-				? areJidsSameUser(msgKey.participant || msgKey.remoteJid!, meId) ||
-					areJidsSameUser(msgKey.participant || msgKey.remoteJid!, meLid)
-				: // if the message being reacted to, was from them
-					// fromMe automatically becomes false
-					false
-			// set the remoteJid to being the same as the chat the message came from
-			// TODO: investigate inconsistencies
-			msgKey.remoteJid = message.key.remoteJid
-			// set participant of the message
-			msgKey.participant = msgKey.participant || message.key.participant
-		}
+		normaliseReferencedKey(msgKey, message, meId, meLid)
+	}
+}
+
+/** maps the key of a message referred to by another (eg. the one reacted to) to this user's perspective */
+const normaliseReferencedKey = (msgKey: WAMessageKey, message: WAMessage, meId: string, meLid: string) => {
+	// if the reaction is from another user
+	// we've to correctly map the key to this user's perspective
+	if (!message.key.fromMe) {
+		// if the sender believed the message being reacted to is not from them
+		// we've to correct the key to be from them, or some other participant
+		msgKey.fromMe = !msgKey.fromMe
+			? areJidsSameUser(msgKey.participant || msgKey.remoteJid!, meId) ||
+				areJidsSameUser(msgKey.participant || msgKey.remoteJid!, meLid)
+			: // if the message being reacted to, was from them
+				// fromMe automatically becomes false
+				false
+		// set the remoteJid to being the same as the chat the message came from
+		// TODO: investigate inconsistencies
+		msgKey.remoteJid = message.key.remoteJid
+		// set participant of the message
+		msgKey.participant = msgKey.participant || message.key.participant
 	}
 }
 
@@ -116,7 +126,8 @@ export const isRealMessage = (message: WAMessage) => {
 		hasSomeContent &&
 		!normalizedContent?.protocolMessage &&
 		!normalizedContent?.reactionMessage &&
-		!normalizedContent?.pollUpdateMessage
+		!normalizedContent?.pollUpdateMessage &&
+		!normalizedContent?.encEventResponseMessage
 	)
 }
 
@@ -145,6 +156,29 @@ type PollContext = {
 	voterJid: string
 }
 
+/**
+ * derives the key to encrypt an addon of a message (eg. a poll vote) with,
+ * from the secret of the message it's for
+ */
+const getMessageAddonKey = (
+	useCase: string,
+	msgId: string,
+	creatorJid: string,
+	senderJid: string,
+	secret: Uint8Array
+) => {
+	const sign = Buffer.concat([
+		Buffer.from(msgId),
+		Buffer.from(creatorJid),
+		Buffer.from(senderJid),
+		Buffer.from(useCase),
+		new Uint8Array([1])
+	])
+
+	const key0 = hmacSign(secret, new Uint8Array(32), 'sha256')
+	return hmacSign(sign, key0, 'sha256')
+}
+
 /**
  * Decrypt a poll vote
  * @param vote encrypted vote
@@ -155,23 +189,82 @@ export function decryptPollVote(
 	{ encPayload, encIv }: proto.Message.IPollEncValue,
 	{ pollCreatorJid, pollMsgId, pollEncKey, voterJid }: PollContext
 ) {
-	const sign = Buffer.concat([
-		toBinary(pollMsgId),
-		toBinary(pollCreatorJid),
-		toBinary(voterJid),
-		toBinary('Poll Vote'),
-		new Uint8Array([1])
-	])
-
-	const key0 = hmacSign(pollEncKey, new Uint8Array(32), 'sha256')
-	const decKey = hmacSign(sign, key0, 'sha256')
-	const aad = toBinary(`${pollMsgId}\u0000${voterJid}`)
+	const decKey = getMessageAddonKey('Poll Vote', pollMsgId, pollCreatorJid, voterJid, pollEncKey)
+	const aad = Buffer.from(`${pollMsgId}\u0000${voterJid}`)
 
 	const decrypted = aesDecryptGCM(encPayload!, decKey, encIv!, aad)
 	return proto.Message.PollVoteMessage.decode(decrypted)
+}
+
+type EventResponseContext = {
+	/** normalised jid of the person that created the event */
+	eventCreatorJid: string
+	/** ID of the event message */
+	eventMsgId: string
+	/** event message enc key */
+	eventEncKey: Uint8Array
+	/** jid of the person that responded */
+	responderJid: string
+}
+
+/**
+ * Encrypt a response to an event
+ * @returns the encrypted payload & IV for an `encEventResponseMessage`
+ */
+export function encryptEventResponse(
+	response: proto.Message.IEventResponseMessage,
+	{ eventCreatorJid, eventMsgId, eventEncKey, responderJid }: EventResponseContext
+) {
+	const encKey = getMessageAddonKey('Event Response', eventMsgId, eventCreatorJid, responderJid, eventEncKey)
+	const aad = Buffer.from(`${eventMsgId}\u0000${responderJid}`)
+	const encIv = randomBytes(12)
 
-	function toBinary(txt: string) {
-		return Buffer.from(txt)
+	const encPayload = aesEncryptGCM(proto.Message.EventResponseMessage.encode(response).finish(), encKey, encIv, aad)
+	return { encPayload, encIv }
+}
+
+/**
+ * Decrypt a response to an event
+ * @param response encrypted response
+ * @param ctx additional info about the event required for decryption
+ */
+export function decryptEventResponse(
+	{ encPayload, encIv }: Pick<proto.Message.IEncEventResponseMessage, 'encPayload' | 'encIv'>,
+	{ eventCreatorJid, eventMsgId, eventEncKey, responderJid }: EventResponseContext
+) {
+	const decKey = getMessageAddonKey('Event Response', eventMsgId, eventCreatorJid, responderJid, eventEncKey)
+	const aad = Buffer.from(`${eventMsgId}\u0000${responderJid}`)
+
+	const decrypted = aesDecryptGCM(encPayload!, decKey, encIv!, aad)
+	return proto.Message.EventResponseMessage.decode(decrypted)
+}
+
+/** the JIDs the author of a message may have encrypted an addon with, ie. both their PN & LID */
+const getAddonAuthorJids = (key: WAMessageKey, me: AuthenticationCreds['me']) => {
+	const jids = key.fromMe
+		? [me?.id, me?.lid]
+		: [getKeyAuthor(key), key.participant ? key.participantAlt : key.remoteJidAlt]
+	return [...new Set(jids.filter(jid => !!jid).map(jidNormalizedUser))]
+}
+
+/**
+ * Decrypt an addon of a message (eg. a poll vote), with each JID its creator & sender may have encrypted it with
+ * @param decrypt decrypts the addon with the given JIDs, throws if they were not the ones used
+ * @returns the decrypted addon & the JID of the sender, undefined if no JID matched
+ */
+export function decryptMessageAddon<T>(
+	{ creatorKey, senderKey, me }: { creatorKey: WAMessageKey; senderKey: WAMessageKey; me: AuthenticationCreds['me'] },
+	decrypt: (creatorJid: string, senderJid: string) => T
+) {
+	const senderJids = getAddonAuthorJids(senderKey, me)
+	for (const creatorJid of getAddonAuthorJids(creatorKey, me)) {
+		for (const senderJid of senderJids) {
+			try {
+				return { sender: senderJids[0]!, result: decrypt(creatorJid, senderJid) }
+			} catch {
+				// encrypted with another JID of the creator or sender
+			}
+		}
 	}
 }
 
@@ -213,6 +306,32 @@ const processMessage = async (
 	}
 
 	const protocolMsg = content?.protocolMessage
+	/** the revision made by the protocol message, to the message it edits or deletes */
+	const emitRevision = (type: 'edit' | 'revoke') => {
+		if (!protocolMsg!.key?.id) {
+			return
+		}
+
+		// normalise a copy, the protocol message is left as the sender sent it
+		const key = { ...protocolMsg!.key }
+		normaliseReferencedKey(key, message, meId, creds.me?.lid || '')
+		ev.emit('messages.edit-history', [
+			{
+				key: { ...key, remoteJid: message.key.remoteJid },
+				revision: {
+					type,
+					id: message.key.id!,
+					message: type === 'edit' ? protocolMsg!.editedMessage : null,
+					timestamp: toNumber(protocolMsg!.timestampMs) || toNumber(message.messageTimestamp) * 1000,
+					editor: jidNormalizedUser(getKeyAuthor(message.key, meId)),
+					editorAlt: message.key.fromMe
+						? creds.me?.lid && jidNormalizedUser(creds.me.lid)
+						: (message.key.participant ? message.key.participantAlt : message.key.remoteJidAlt) || undefined
+				}
+			}
+		])
+	}
+
 	if (protocolMsg) {
 		switch (protocolMsg.type) {
 			case proto.Message.ProtocolMessage.Type.HISTORY_SYNC_NOTIFICATION:
@@ -276,6 +395,7 @@ const processMessage = async (
 
 				break
 			case proto.Message.ProtocolMessage.Type.REVOKE:
+				emitRevision('revoke')
 				ev.emit('messages.update', [
 					{
 						key: {
@@ -318,6 +438,7 @@ const processMessage = async (
 
 				break
 			case proto.Message.ProtocolMessage.Type.MESSAGE_EDIT:
+				emitRevision('edit')
 				ev.emit('messages.update', [
 					{
 						// flip the sender / fromMe properties because they're in the perspective of the sender
@@ -0,0 +1,217 @@
+import { Boom } from '@hapi/boom'
+import type { RateLimitBudget, RateLimitBudgetState, SendRateLimitConfig, SendRateLimitState } from '../Types'
+import { isLidUser, isPnUser } from '../WABinary'
+import { delayCancellable } from './generics'
+import type { ILogger } from './logger'
+
+/** max number of per chat budgets kept, before the refilled ones are dropped */
+const MAX_JID_BUCKETS = 1000
+
+/** ack errors for hitting the rate limit (429) & being restricted from messaging new chats (463) */
+export const RATE_LIMIT_ERROR_CODES = [429, 463]
+
+const makeTokenBucket = ({ limit, intervalMs }: RateLimitBudget) => {
+	let tokens = limit
+	let updatedAt = Date.now()
+
+	const refill = () => {
+		const now = Date.now()
+		tokens = Math.min(limit, tokens + ((now - updatedAt) * limit) / intervalMs)
+		updatedAt = now
+	}
+
+	return {
+		/** ms till a token is available */
+		waitMs() {
+			refill()
+			return tokens >= 1 ? 0 : Math.ceil(((1 - tokens) * intervalMs) / limit)
+		},
+		take() {
+			refill()
+			tokens -= 1
+		},
+		isFull() {
+			refill()
+			return tokens >= limit
+		},
+		getState(): RateLimitBudgetState {
+			refill()
+			return { limit, intervalMs, tokens: Math.floor(tokens) }
+		}
+	}
+}
+
+type TokenBucket = ReturnType<typeof makeTokenBucket>
+
+/**
+ * paces outgoing messages with token buckets, optional jitter
+ * & pauses sending when WA responds with rate limit errors
+ */
+export const makeSendRateLimiter = (
+	{
+		global,
+		perJid,
+		newContacts,
+		isNewContact,
+		jitterMs,
+		pauseOnErrorCodes = RATE_LIMIT_ERROR_CODES,
+		pauseMs = 10 * 60 * 1000
+	}: SendRateLimitConfig,
+	logger: ILogger
+) => {
+	const recipientQueues = new Map<string, Promise<void>>()
+	const globalBucket = global && makeTokenBucket(global)
+	const newContactsBucket = newContacts && makeTokenBucket(newContacts)
+	const jidBuckets = new Map<string, TokenBucket>()
+	const knownContacts = new Set<string>()
+	const pauseCodes = new Set(pauseOnErrorCodes)
+
+	let queued = 0
+	let pausedUntil: number | undefined
+	let pauseReason: number | undefined
+	const wakers = new Set<() => void>()
+
+	const sleep = async (ms: number) => {
+		const { delay, cancel } = delayCancellable(ms)
+		wakers.add(cancel)
+		// cancelled when sending is resumed
+		await delay.catch(() => {})
+		wakers.delete(cancel)
+	}
+
+	/** runs the sends to a recipient one at a time, so they stay in order without holding up other chats */
+	const queueForRecipient = <T>(jid: string, task: () => Promise<T>) => {
+		const result = (recipientQueues.get(jid) || Promise.resolve()).then(task)
+		const settled = result.then(
+			() => {},
+			() => {}
+		)
+		recipientQueues.set(jid, settled)
+		settled.then(() => recipientQueues.get(jid) === settled && recipientQueues.delete(jid))
+		return result
+	}
+
+	const getJidBucket = (jid: string) => {
+		if (!perJid) {
+			return
+		}
+
+		let bucket = jidBuckets.get(jid)
+		if (!bucket) {
+			if (jidBuckets.size >= MAX_JID_BUCKETS) {
+				for (const [jid, bucket] of jidBuckets) {
+					bucket.isFull() && jidBuckets.delete(jid)
+				}
+			}
+
+			bucket = makeTokenBucket(perJid)
+			jidBuckets.set(jid, bucket)
+		}
+
+		return bucket
+	}
+
+	const checkNewContact = async (jid: string) => {
+		if (!newContactsBucket || (!isPnUser(jid) && !isLidUser(jid)) || knownContacts.has(jid)) {
+			return false
+		}
+
+		return isNewContact ? isNewContact(jid) : true
+	}
+
+	const pause = (reason: number | undefined, ms = pauseMs) => {
+		pausedUntil = Date.now() + ms
+		pauseReason = reason
+		logger.warn({ reason, pausedUntil }, 'paused sending messages')
+	}
+
+	return {
+		/**
+		 * run the send once the budgets allow it.
+		 * Sends to the same recipient run one at a time & resolve in the order they were queued
+		 */
+		async schedule<T>(jid: string, send: () => Promise<T>) {
+			queued += 1
+			let waiting = true
+			try {
+				return await queueForRecipient(jid, async () => {
+					const isNew = await checkNewContact(jid)
+					for (;;) {
+						if (pausedUntil && pausedUntil > Date.now()) {
+							await sleep(pausedUntil - Date.now())
+							continue
+						}
+
+						const buckets = [globalBucket, getJidBucket(jid), isNew ? newContactsBucket : undefined].filter(
+							bucket => !!bucket
+						)
+						const waitMs = Math.max(0, ...buckets.map(bucket => bucket.waitMs()))
+						if (!waitMs) {
+							buckets.forEach(bucket => bucket.take())
+							break
+						}
+
+						await sleep(waitMs)
+					}
+
+					if (jitterMs) {
+						const [min, max] = jitterMs
+						await sleep(min + Math.random() * (max - min))
+					}
+
+					waiting = false
+					queued -= 1
+					try {
+						const result = await send()
+						knownContacts.add(jid)
+						return result
+					} catch (error) {
+						if (error instanceof Boom && error.output.statusCode === 429) {
+							pause(429)
+						}
+
+						throw error
+					}
+				})
+			} finally {
+				if (waiting) {
+					queued -= 1
+				}
+			}
+		},
+		/** pause sending if the error code from a message ack is a rate limit */
+		handleAckError(code: number) {
+			if (pauseCodes.has(code)) {
+				pause(code)
+			}
+		},
+		/** a message was received from or sent to the contact, so it's not new */
+		markContactKnown(jid: string) {
+			knownContacts.add(jid)
+		},
+		/** pause sending, defaults to the configured pause time */
+		pause(ms?: number) {
+			pause(undefined, ms)
+		},
+		resume() {
+			pausedUntil = undefined
+			pauseReason = undefined
+			for (const wake of wakers) {
+				wake()
+			}
+		},
+		getState(): SendRateLimitState {
+			const isPaused = !!pausedUntil && pausedUntil > Date.now()
+			return {
+				queued,
+				pausedUntil: isPaused ? pausedUntil : undefined,
+				pauseReason: isPaused ? pauseReason : undefined,
+				global: globalBucket?.getState(),
+				newContacts: newContactsBucket?.getState(),
+				perJid: Object.fromEntries([...jidBuckets].map(([jid, bucket]) => [jid, bucket.getState()]))
+			}
+		}
+	}
+}
+
+export type SendRateLimiter = ReturnType<typeof makeSendRateLimiter>
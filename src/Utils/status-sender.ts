@@ -0,0 +1,110 @@
+import { Boom } from '@hapi/boom'
+import { proto } from '../../WAProto/index.js'
+import type {
+	BaileysEventEmitter,
+	MessageRelayOptions,
+	MiscMessageGenerationOptions,
+	SendStatusOptions,
+	StatusAudience,
+	StatusContent,
+	WAMessage,
+	WAStatusChunk,
+	WAStatusMessage
+} from '../Types'
+import { isLidUser, isPnUser, jidNormalizedUser, STORIES_JID } from '../WABinary'
+import { generateMessageIDV2 } from './generics'
+import type { ILogger } from './logger'
+
+export type StatusSenderConfig = {
+	ev: BaileysEventEmitter
+	logger: ILogger
+	generateMessage: (jid: string, content: StatusContent, options: MiscMessageGenerationOptions) => Promise<WAMessage>
+	relayMessage: (jid: string, message: proto.IMessage, options: MessageRelayOptions) => Promise<unknown>
+}
+
+const normalizeJids = (jids: Iterable<string>) => {
+	const normalized = new Set<string>()
+	for (const jid of jids) {
+		const user = jidNormalizedUser(jid)
+		if (isPnUser(user) || isLidUser(user)) {
+			normalized.add(user)
+		}
+	}
+
+	return normalized
+}
+
+/** publishes statuses (stories) to the selected contacts */
+export const makeStatusSender = ({ ev, logger, generateMessage, relayMessage }: StatusSenderConfig) => {
+	/** contacts received on the socket, the default audience */
+	const contacts = new Set<string>()
+	const addContacts = (list: { id?: string | null }[]) => {
+		for (const { id } of list) {
+			id && contacts.add(id)
+		}
+	}
+
+	ev.on('contacts.upsert', addContacts)
+	ev.on('contacts.update', addContacts)
+	ev.on('messaging-history.set', ({ contacts }) => addContacts(contacts))
+
+	const resolveAudience = (audience: StatusAudience, allContacts: Iterable<string>) => {
+		if (typeof audience === 'object' && 'allow' in audience) {
+			return normalizeJids(audience.allow)
+		}
+
+		const jids = normalizeJids(allContacts)
+		if (typeof audience === 'object') {
+			for (const jid of normalizeJids(audience.exclude)) {
+				jids.delete(jid)
+			}
+		}
+
+		return jids
+	}
+
+	return {
+		/**
+		 * post a status, visible to the audience.
+		 * Large audiences are sent to in chunks, each as its own message reusing the uploaded media
+		 * @returns the status, delete it with `deleteStatus`
+		 */
+		sendStatus: async (
+			content: StatusContent,
+			{ audience = 'contacts', contacts: allContacts, backgroundColor, font, chunkSize = 500 }: SendStatusOptions = {}
+		) => {
+			const statusJidList = [...resolveAudience(audience, allContacts || contacts)]
+			if (!statusJidList.length) {
+				throw new Boom('The status has no audience', { statusCode: 400, data: { audience } })
+			}
+
+			const msg = await generateMessage(STORIES_JID, content, { backgroundColor, font })
+			const chunks: WAStatusChunk[] = []
+			for (let i = 0; i < statusJidList.length; i += chunkSize) {
+				// a message ID is only sent once, so every chunk after the first is a message of its own
+				const key = i ? { ...msg.key, id: generateMessageIDV2() } : msg.key
+				const chunk = { key, statusJidList: statusJidList.slice(i, i + chunkSize) }
+				await relayMessage(STORIES_JID, msg.message!, { messageId: key.id!, statusJidList: chunk.statusJidList })
+				chunks.push(chunk)
+			}
+
+			logger.debug({ msgId: msg.key.id, audience: statusJidList.length, chunks: chunks.length }, 'sent status')
+			const status: WAStatusMessage = { ...msg, statusJidList, chunks }
+			return status
+		},
+		/** delete a status for everyone who received it */
+		deleteStatus: async ({ chunks }: Pick<WAStatusMessage, 'chunks'>) => {
+			for (const { key, statusJidList } of chunks) {
+				await relayMessage(
+					STORIES_JID,
+					{ protocolMessage: { key, type: proto.Message.ProtocolMessage.Type.REVOKE } },
+					{
+						messageId: generateMessageIDV2(),
+						statusJidList,
+						additionalAttributes: { edit: '7' }
+					}
+				)
+			}
+		}
+	}
+}
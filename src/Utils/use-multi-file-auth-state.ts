@@ -1,8 +1,10 @@
 import { Mutex } from 'async-mutex'
-import { mkdir, readFile, stat, unlink, writeFile } from 'fs/promises'
+import { mkdir, readdir, readFile, stat, unlink, writeFile } from 'fs/promises'
 import { join } from 'path'
 import { proto } from '../../WAProto/index.js'
-import type { AuthenticationCreds, AuthenticationState, SignalDataTypeMap } from '../Types'
+import { SIGNAL_DATA_TYPES } from '../Defaults'
+import type { AuthenticationCreds, AuthenticationState, AuthStateCipher, SignalDataTypeMap } from '../Types'
+import { isEncryptedAuthValue } from './auth-encryption'
 import { initAuthCreds } from './auth-utils'
 import { BufferJSON } from './generics'
 
@@ -29,14 +31,20 @@ const getFileLock = (path: string): Mutex => {
  *
  * Again, I wouldn't endorse this for any production level use other than perhaps a bot.
  * Would recommend writing an auth state for use with a proper SQL or No-SQL DB
+ *
+ * @param cipher optionally encrypt every file at rest, see `makeAuthStateCipher`
  * */
 export const useMultiFileAuthState = async (
-	folder: string
+	folder: string,
+	cipher?: AuthStateCipher
 ): Promise<{ state: AuthenticationState; saveCreds: () => Promise<void> }> => {
 	// eslint-disable-next-line @typescript-eslint/no-explicit-any
 	const writeData = async (data: any, file: string) => {
 		const filePath = join(folder, fixFileName(file)!)
 		const mutex = getFileLock(filePath)
+		if (cipher) {
+			data = await cipher.encrypt(data, getCipherContext(file))
+		}
 
 		return mutex.acquire().then(async release => {
 			try {
@@ -48,11 +56,12 @@ export const useMultiFileAuthState = async (
 	}
 
 	const readData = async (file: string) => {
+		let data
 		try {
 			const filePath = join(folder, fixFileName(file)!)
 			const mutex = getFileLock(filePath)
 
-			return await mutex.acquire().then(async release => {
+			data = await mutex.acquire().then(async release => {
 				try {
 					const data = await readFile(filePath, { encoding: 'utf-8' })
 					return JSON.parse(data, BufferJSON.reviver)
@@ -63,6 +72,14 @@ export const useMultiFileAuthState = async (
 		} catch (error) {
 			return null
 		}
+
+		// decrypt outside the catch, a wrong key must not look like missing data.
+		// Without a cipher, encrypted values are returned as is -- eg. for `makeEncryptedSignalKeyStore`
+		if (cipher && isEncryptedAuthValue(data)) {
+			return cipher.decrypt(data, getCipherContext(file))
+		}
+
+		return data
 	}
 
 	const removeData = async (file: string) => {
@@ -94,7 +111,20 @@ export const useMultiFileAuthState = async (
 
 	const fixFileName = (file?: string) => file?.replace(/\//g, '__')?.replace(/:/g, '-')
 
-	const creds: AuthenticationCreds = (await readData('creds.json')) || initAuthCreds()
+	const getCipherContext = (file: string) => file.replace(/\.json$/, '')
+
+	/**
+	 * reverse of fixFileName; the only IDs with ":" in them are sender keys ("group::user::device"),
+	 * so only "--" is mapped back -- a single "-" may be part of a legacy group JID
+	 */
+	const unfixFileName = (file: string) => file.replace(/__/g, '/').replace(/--/g, '::')
+
+	const storedCreds = await readData('creds.json')
+	if (isEncryptedAuthValue(storedCreds)) {
+		throw new Error('creds.json is encrypted, but no cipher was provided')
+	}
+
+	const creds: AuthenticationCreds = storedCreds || initAuthCreds()
 
 	return {
 		state: {
@@ -105,7 +135,7 @@ export const useMultiFileAuthState = async (
 					await Promise.all(
 						ids.map(async id => {
 							let value = await readData(`${type}-${id}.json`)
-							if (type === 'app-state-sync-key' && value) {
+							if (type === 'app-state-sync-key' && value && !isEncryptedAuthValue(value)) {
 								value = proto.Message.AppStateSyncKeyData.fromObject(value)
 							}
 
@@ -126,6 +156,16 @@ export const useMultiFileAuthState = async (
 					}
 
 					await Promise.all(tasks)
+				},
+				list: async type => {
+					const prefix = `${type}-`
+					// eg. "sender-key-" also prefixes "sender-key-memory-" files
+					const otherPrefixes = SIGNAL_DATA_TYPES.filter(t => t !== type && t.startsWith(prefix)).map(t => `${t}-`)
+					const files = await readdir(folder)
+					return files
+						.filter(file => file.startsWith(prefix) && file.endsWith('.json'))
+						.filter(file => !otherPrefixes.some(other => file.startsWith(other)))
+						.map(file => unfixFileName(file.slice(prefix.length, -'.json'.length)))
 				}
 			}
 		},
@@ -0,0 +1,167 @@
+import { Boom } from '@hapi/boom'
+import type { Database } from 'better-sqlite3'
+import { proto } from '../../WAProto/index.js'
+import type { AuthenticationCreds, AuthenticationState, AuthStateCipher, SignalDataTypeMap } from '../Types'
+import { isEncryptedAuthValue } from './auth-encryption'
+import { initAuthCreds } from './auth-utils'
+import { BufferJSON } from './generics'
+
+/**
+ * opens (or creates) a SQLite database using the optional `better-sqlite3` peer dependency
+ * @param path file path of the database, or ":memory:"
+ */
+export const openSqliteDatabase = async (path: string): Promise<Database> => {
+	let Sqlite: typeof import('better-sqlite3')
+	try {
+		Sqlite = (await import('better-sqlite3')).default
+	} catch (error) {
+		throw new Boom('SQLite support requires the "better-sqlite3" package to be installed', {
+			statusCode: 500,
+			data: error
+		})
+	}
+
+	const db = new Sqlite(path)
+	db.pragma('journal_mode = WAL')
+	db.pragma('synchronous = NORMAL')
+	return db
+}
+
+/**
+ * stores the full authentication state in a SQLite database.
+ *
+ * Keys of every signal data category live in a single table indexed by (category, id),
+ * and every `keys.set` call is applied inside one database transaction --
+ * so a batch committed by `addTransactionCapability` is written all-or-nothing
+ *
+ * @param cipher optionally encrypt every value at rest, see `makeAuthStateCipher`
+ * @returns the state, & `close` to release the database once the socket is closed
+ * */
+export const useSqliteAuthState = async (
+	path: string,
+	cipher?: AuthStateCipher
+): Promise<{ state: AuthenticationState; saveCreds: () => Promise<void>; close: () => Promise<void> }> => {
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any
+	const serialize = async (value: any, context: string) => {
+		if (cipher) {
+			value = await cipher.encrypt(value, context)
+		}
+
+		return JSON.stringify(value, BufferJSON.replacer)
+	}
+
+	const deserialize = async (data: string, context: string) => {
+		const value = JSON.parse(data, BufferJSON.reviver)
+		// without a cipher, encrypted values are returned as is -- eg. for `makeEncryptedSignalKeyStore`
+		if (cipher && isEncryptedAuthValue(value)) {
+			return cipher.decrypt(value, context)
+		}
+
+		return value
+	}
+
+	const db = await openSqliteDatabase(path)
+	db.exec(
+		`CREATE TABLE IF NOT EXISTS creds (
+			id INTEGER PRIMARY KEY CHECK (id = 1),
+			value TEXT NOT NULL
+		);
+		CREATE TABLE IF NOT EXISTS signal_keys (
+			category TEXT NOT NULL,
+			id TEXT NOT NULL,
+			value TEXT NOT NULL,
+			PRIMARY KEY (category, id)
+		) WITHOUT ROWID;`
+	)
+
+	const readCreds = db.prepare<[], { value: string }>('SELECT value FROM creds WHERE id = 1')
+	const writeCreds = db.prepare<[string]>(
+		'INSERT INTO creds (id, value) VALUES (1, ?) ON CONFLICT (id) DO UPDATE SET value = excluded.value'
+	)
+	const readKey = db.prepare<[string, string], { value: string }>(
+		'SELECT value FROM signal_keys WHERE category = ? AND id = ?'
+	)
+	const writeKey = db.prepare<[string, string, string]>(
+		'INSERT INTO signal_keys (category, id, value) VALUES (?, ?, ?) ' +
+			'ON CONFLICT (category, id) DO UPDATE SET value = excluded.value'
+	)
+	const removeKey = db.prepare<[string, string]>('DELETE FROM signal_keys WHERE category = ? AND id = ?')
+	const listKeys = db.prepare<[string], { id: string }>('SELECT id FROM signal_keys WHERE category = ?')
+
+	const readKeys = db.transaction((type: string, ids: string[]) => {
+		const rows: { [id: string]: string | undefined } = {}
+		for (const id of ids) {
+			rows[id] = readKey.get(type, id)?.value
+		}
+
+		return rows
+	})
+
+	const writeKeys = db.transaction((mutations: [category: string, id: string, value: string | null][]) => {
+		for (const [category, id, value] of mutations) {
+			if (value) {
+				writeKey.run(category, id, value)
+			} else {
+				removeKey.run(category, id)
+			}
+		}
+	})
+
+	const storedCreds = readCreds.get()
+	const creds: AuthenticationCreds = storedCreds ? await deserialize(storedCreds.value, 'creds') : initAuthCreds()
+	if (isEncryptedAuthValue(creds)) {
+		throw new Error('creds is encrypted, but no cipher was provided')
+	}
+
+	return {
+		state: {
+			creds,
+			keys: {
+				get: async (type, ids) => {
+					const data: { [_: string]: SignalDataTypeMap[typeof type] } = {}
+					const rows = readKeys(type, ids)
+					for (const id of ids) {
+						const row = rows[id]
+						if (!row) {
+							continue
+						}
+
+						let value = await deserialize(row, `${type}-${id}`)
+						if (type === 'app-state-sync-key' && value && !isEncryptedAuthValue(value)) {
+							value = proto.Message.AppStateSyncKeyData.fromObject(value)
+						}
+
+						data[id] = value
+					}
+
+					return data
+				},
+				set: async data => {
+					const tasks: Promise<[string, string, string | null]>[] = []
+					for (const category in data) {
+						for (const id in data[category as keyof SignalDataTypeMap]) {
+							const value = data[category as keyof SignalDataTypeMap]![id]
+							const serialized = value ? serialize(value, `${category}-${id}`) : Promise.resolve(null)
+							tasks.push(serialized.then(value => [category, id, value]))
+						}
+					}
+
+					// serialize (and encrypt) everything first, then write the whole batch in one transaction
+					writeKeys(await Promise.all(tasks))
+				},
+				clear: async () => {
+					db.exec('DELETE FROM signal_keys')
+				},
+				list: async type => {
+					return listKeys.all(type).map(({ id }) => id)
+				}
+			}
+		},
+		saveCreds: async () => {
+			writeCreds.run(await serialize(creds, 'creds'))
+		},
+		close: async () => {
+			db.close()
+		}
+	}
+}
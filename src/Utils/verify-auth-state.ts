@@ -0,0 +1,284 @@
+import { MIN_PREKEY_COUNT } from '../Defaults'
+import type {
+	AuthenticationCreds,
+	AuthenticationState,
+	AuthStateIssue,
+	AuthStateIssueCode,
+	AuthStateReport,
+	SignalDataTypeMap
+} from '../Types'
+import { ALL_WA_PATCH_NAMES } from '../Types'
+import { WAJIDDomains } from '../WABinary'
+import { Curve } from './crypto'
+import type { ILogger } from './logger'
+import { getNextPreKeys } from './signal'
+
+export type VerifyAuthStateOptions = {
+	/** fix the issues that can be fixed without pairing again */
+	repair?: boolean
+	/**
+	 * fetches the current devices of the given phone number users, eg. with `sock.getUSyncDevices`.
+	 * The cached device lists may miss newly linked devices, so stale sessions are only dropped
+	 * once this confirms their device is gone
+	 */
+	fetchDevices?: (pnUsers: string[]) => Promise<{ [pnUser: string]: string[] }>
+	logger?: ILogger
+}
+
+const REQUIRED_CREDS: (keyof AuthenticationCreds)[] = [
+	'noiseKey',
+	'signedIdentityKey',
+	'signedPreKey',
+	'advSecretKey',
+	'registrationId'
+]
+
+const GET_BATCH_SIZE = 500
+
+const REVERSE_LID_MAPPING_SUFFIX = '_reverse'
+
+/**
+ * Cross checks the creds against the key store, to find the inconsistencies a crash can leave behind.
+ * Checks that need to enumerate the store are skipped if it does not implement `list`.
+ *
+ * In repair mode: missing pre-keys are regenerated, orphaned & stale entries are dropped
+ * and app state versions without a key are reset (so they're synced from scratch).
+ * Stale sessions are only dropped with `fetchDevices`, as the cached device lists can be outdated.
+ * The creds are updated in place -- remember to save them afterwards
+ * @param state the auth state to verify, preferably before the socket is started
+ */
+export const verifyAuthState = async (
+	state: AuthenticationState,
+	{ repair = false, fetchDevices, logger }: VerifyAuthStateOptions = {}
+): Promise<AuthStateReport> => {
+	const { creds, keys } = state
+	const issues: AuthStateIssue[] = []
+	const skippedChecks: AuthStateIssueCode[] = []
+	let credsUpdate: Partial<AuthenticationCreds> | undefined
+
+	const addIssue = (code: AuthStateIssueCode, message: string, ids?: string[]) => {
+		logger?.warn({ code, count: ids?.length }, message)
+		const issue: AuthStateIssue = { code, message, ids, repaired: false }
+		issues.push(issue)
+		return issue
+	}
+
+	const getAll = async <T extends keyof SignalDataTypeMap>(type: T, ids: string[]) => {
+		const result: { [id: string]: SignalDataTypeMap[T] } = {}
+		for (let i = 0; i < ids.length; i += GET_BATCH_SIZE) {
+			Object.assign(result, await keys.get(type, ids.slice(i, i + GET_BATCH_SIZE)))
+		}
+
+		return result
+	}
+
+	const listIds = async (type: keyof SignalDataTypeMap, check: AuthStateIssueCode) => {
+		if (!keys.list) {
+			skippedChecks.push(check)
+			return undefined
+		}
+
+		return keys.list(type)
+	}
+
+	// creds that cannot be regenerated without pairing again
+	const missingCreds = REQUIRED_CREDS.filter(key => creds[key] === undefined || creds[key] === null)
+	if (creds.registered) {
+		if (!creds.me?.id) {
+			missingCreds.push('me')
+		}
+
+		if (!creds.account) {
+			missingCreds.push('account')
+		}
+	}
+
+	if (missingCreds.length) {
+		addIssue('invalid-creds', `creds are missing ${missingCreds.join(', ')}, a re-pair is required`, missingCreds)
+	}
+
+	// pre-keys
+	const { firstUnuploadedPreKeyId, nextPreKeyId } = creds
+	const currentPreKeyId = nextPreKeyId - 1
+	const unuploadedIds: string[] = []
+	for (let id = firstUnuploadedPreKeyId; id < nextPreKeyId; id++) {
+		unuploadedIds.push(id.toString())
+	}
+
+	const preKeyIdsToCheck = currentPreKeyId > 0 ? [...new Set([...unuploadedIds, currentPreKeyId.toString()])] : []
+	const preKeys = await getAll('pre-key', preKeyIdsToCheck)
+
+	const missingUnuploaded = unuploadedIds.filter(id => !preKeys[id])
+	if (missingUnuploaded.length) {
+		const issue = addIssue(
+			'missing-unuploaded-pre-keys',
+			`${missingUnuploaded.length} pre-keys pending upload are missing`,
+			missingUnuploaded
+		)
+		if (repair) {
+			// these were never uploaded, so they can simply be generated again with the same IDs
+			const regenerated: { [id: string]: SignalDataTypeMap['pre-key'] } = {}
+			for (const id of missingUnuploaded) {
+				regenerated[id] = Curve.generateKeyPair()
+			}
+
+			await keys.set({ 'pre-key': regenerated })
+			issue.repaired = true
+		}
+	}
+
+	// the current pre-key was already uploaded -- it cannot be restored, but fresh ones can be handed out
+	if (currentPreKeyId > 0 && currentPreKeyId < firstUnuploadedPreKeyId && !preKeys[currentPreKeyId]) {
+		const issue = addIssue('missing-current-pre-key', `current pre-key ${currentPreKeyId} is missing`, [
+			currentPreKeyId.toString()
+		])
+		if (repair) {
+			const { update } = await getNextPreKeys(state, MIN_PREKEY_COUNT)
+			Object.assign(creds, update)
+			credsUpdate = { ...credsUpdate, ...update }
+			issue.repaired = true
+		}
+	}
+
+	const preKeyIds = await listIds('pre-key', 'orphaned-pre-keys')
+	if (preKeyIds) {
+		// read from the creds again, a repair above may have handed out new pre-keys
+		const orphaned = preKeyIds.filter(id => !(+id > 0) || +id >= creds.nextPreKeyId)
+		if (orphaned.length) {
+			const issue = addIssue(
+				'orphaned-pre-keys',
+				`${orphaned.length} pre-keys were never handed out by the creds`,
+				orphaned
+			)
+			if (repair) {
+				await keys.set({ 'pre-key': Object.fromEntries(orphaned.map(id => [id, null])) })
+				issue.repaired = true
+			}
+		}
+	}
+
+	// app state
+	const appStateVersions = await keys.get('app-state-sync-version', [...ALL_WA_PATCH_NAMES])
+	const versionNames = Object.keys(appStateVersions).filter(name => !!appStateVersions[name])
+	if (versionNames.length) {
+		const keyId = creds.myAppStateKeyId
+		const appStateKey = keyId ? (await keys.get('app-state-sync-key', [keyId]))[keyId] : undefined
+		if (!appStateKey) {
+			const issue = addIssue(
+				'missing-app-state-sync-key',
+				`app state versions are stored, but app state key "${keyId}" is missing`,
+				versionNames
+			)
+			if (repair) {
+				// drop the versions, a full snapshot will be synced once the phone shares a key again
+				await keys.set({ 'app-state-sync-version': Object.fromEntries(versionNames.map(name => [name, null])) })
+				issue.repaired = true
+			}
+		}
+	}
+
+	// LID mappings, stored as "pnUser -> lidUser" & "lidUser_reverse -> pnUser" by the LIDMappingStore
+	const lidMappingIds = await listIds('lid-mapping', 'inconsistent-lid-mappings')
+	const lidMappings = lidMappingIds ? await getAll('lid-mapping', lidMappingIds) : {}
+	if (lidMappingIds) {
+		const fixes: { [id: string]: string | null } = {}
+		for (const [id, value] of Object.entries(lidMappings)) {
+			if (!id.endsWith(REVERSE_LID_MAPPING_SUFFIX)) {
+				const reverseId = `${value}${REVERSE_LID_MAPPING_SUFFIX}`
+				if (!lidMappings[reverseId]) {
+					fixes[reverseId] = id
+				}
+
+				continue
+			}
+
+			const lidUser = id.slice(0, -REVERSE_LID_MAPPING_SUFFIX.length)
+			const mappedLidUser = lidMappings[value]
+			if (!mappedLidUser) {
+				fixes[value] = lidUser
+			} else if (mappedLidUser !== lidUser) {
+				fixes[id] = null
+			}
+		}
+
+		const fixedIds = Object.keys(fixes)
+		if (fixedIds.length) {
+			const issue = addIssue('inconsistent-lid-mappings', `${fixedIds.length} LID mappings are inconsistent`, fixedIds)
+			if (repair) {
+				await keys.set({ 'lid-mapping': fixes })
+				issue.repaired = true
+			}
+		}
+	}
+
+	// sessions, stored as "user.device" -- LID users carry their domain as "user_1.device"
+	const sessionIds = await listIds('session', 'stale-sessions')
+	if (sessionIds) {
+		const sessionsByUser: { [pnUser: string]: { id: string; device: string }[] } = {}
+		for (const id of sessionIds) {
+			const separator = id.lastIndexOf('.')
+			const [user, domainType] = id.slice(0, separator).split('_')
+			const device = id.slice(separator + 1)
+			const pnUser = !domainType
+				? user
+				: +domainType === WAJIDDomains.LID
+					? lidMappings[`${user}${REVERSE_LID_MAPPING_SUFFIX}`]
+					: undefined
+			if (!pnUser || separator < 0) {
+				continue
+			}
+
+			sessionsByUser[pnUser] = sessionsByUser[pnUser] || []
+			sessionsByUser[pnUser].push({ id, device })
+		}
+
+		const getStaleSessions = (deviceLists: { [pnUser: string]: string[] | undefined }) => {
+			const stale: string[] = []
+			for (const [pnUser, sessions] of Object.entries(sessionsByUser)) {
+				// only users with a known device list can be checked
+				const devices = deviceLists[pnUser]
+				if (!devices) {
+					continue
+				}
+
+				for (const { id, device } of sessions) {
+					if (!devices.includes(device)) {
+						stale.push(id)
+					}
+				}
+			}
+
+			return stale
+		}
+
+		let stale = getStaleSessions(await getAll('device-list', Object.keys(sessionsByUser)))
+		let confirmed = false
+		if (stale.length && repair && fetchDevices) {
+			const staleUsers = Object.keys(sessionsByUser).filter(pnUser =>
+				sessionsByUser[pnUser]!.some(({ id }) => stale.includes(id))
+			)
+			const deviceLists = await fetchDevices(staleUsers)
+			await keys.set({ 'device-list': deviceLists })
+			stale = getStaleSessions(deviceLists)
+			confirmed = true
+		}
+
+		if (stale.length) {
+			const issue = addIssue('stale-sessions', `${stale.length} sessions belong to unlinked devices`, stale)
+			if (confirmed) {
+				await keys.set({ session: Object.fromEntries(stale.map(id => [id, null])) })
+				issue.repaired = true
+			} else if (repair) {
+				logger?.warn('pass fetchDevices to confirm the devices are unlinked, before dropping their sessions')
+			}
+		}
+	}
+
+	return {
+		healthy: !issues.length,
+		issues,
+		rePairRequired: issues.some(issue => issue.code === 'invalid-creds'),
+		skippedChecks,
+		credsUpdate
+	}
+}
@@ -0,0 +1,264 @@
+import { Boom } from '@hapi/boom'
+import axios from 'axios'
+import { randomUUID } from 'crypto'
+import { appendFile, readFile, rm, writeFile } from 'fs/promises'
+import type { BaileysEvent, BaileysEventEmitter } from '../Types'
+import { hmacSign } from './crypto'
+import { BufferJSON, delayCancellable } from './generics'
+import type { ILogger } from './logger'
+import { makeMutex } from './make-mutex'
+
+export type WebhookDispatcherOptions = {
+	/** endpoint(s) to POST the events to */
+	url: string | string[]
+	/** events to send */
+	events: BaileysEvent[]
+	/** signs the requests with HMAC-SHA256, sent in the "x-baileys-signature" header */
+	secret?: string
+	/** extra headers to send, eg. for auth */
+	headers?: { [name: string]: string }
+	/** retries before an event is considered undeliverable, defaults to 5 */
+	maxRetries?: number
+	/** delay before the first retry, doubled on each attempt. Defaults to 1s */
+	retryDelayMs?: number
+	/** max delay between retries, defaults to 1m */
+	maxRetryDelayMs?: number
+	timeoutMs?: number
+	/** file to keep undeliverable events in, for redelivery with `redeliver()` */
+	queueFile?: string
+	logger?: ILogger
+}
+
+export type WebhookEndpointMetrics = {
+	delivered: number
+	/** deliveries that failed after all retries */
+	failed: number
+	retries: number
+	/** events currently in the on-disk queue */
+	queued: number
+	averageLatencyMs: number
+	lastDeliveredAt?: number
+	lastError?: string
+}
+
+type WebhookDelivery = { id: string; url: string; event: BaileysEvent; body: string }
+
+// client errors won't fix themselves, except for timeouts & rate limits
+const isRetryable = (statusCode: number) => statusCode >= 500 || statusCode === 408 || statusCode === 429
+
+const getStatusCode = (error: unknown) => (error instanceof Boom ? error.output.statusCode : 500)
+
+const getErrorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error))
+
+/**
+ * POSTs the selected events to HTTP endpoints, serialized with `BufferJSON`.
+ * Requests are signed over "{x-baileys-timestamp}.{body}" when a secret is given,
+ * failed deliveries are retried with exponential backoff & then written to the queue file
+ */
+export const createWebhookDispatcher = (
+	ev: BaileysEventEmitter,
+	{
+		url,
+		events,
+		secret,
+		headers,
+		maxRetries = 5,
+		retryDelayMs = 1_000,
+		maxRetryDelayMs = 60_000,
+		timeoutMs = 10_000,
+		queueFile,
+		logger
+	}: WebhookDispatcherOptions
+) => {
+	const urls = Array.isArray(url) ? url : [url]
+	const metrics: { [url: string]: WebhookEndpointMetrics } = {}
+	// queued events may be for endpoints no longer configured, so those are added when seen
+	const getEndpoint = (url: string) =>
+		(metrics[url] ??= { delivered: 0, failed: 0, retries: 0, queued: 0, averageLatencyMs: 0 })
+	for (const url of urls) {
+		getEndpoint(url)
+	}
+
+	const queueMutex = makeMutex()
+	const inFlight = new Set<Promise<void>>()
+	const retryDelays = new Set<() => void>()
+	let closed = false
+
+	/** @returns the latency of the delivery */
+	const send = async ({ id, url, event, body }: WebhookDelivery) => {
+		const timestamp = Date.now().toString()
+		const requestHeaders: { [name: string]: string } = {
+			...headers,
+			'content-type': 'application/json',
+			'x-baileys-event': event,
+			'x-baileys-delivery': id,
+			'x-baileys-timestamp': timestamp
+		}
+		if (secret) {
+			const signature = hmacSign(Buffer.from(`${timestamp}.${body}`), Buffer.from(secret)).toString('hex')
+			requestHeaders['x-baileys-signature'] = `sha256=${signature}`
+		}
+
+		const startedAt = Date.now()
+		let status: number
+		try {
+			;({ status } = await axios.post(url, body, {
+				headers: requestHeaders,
+				timeout: timeoutMs,
+				validateStatus: () => true
+			}))
+		} catch (error) {
+			throw new Boom(getErrorMessage(error), { statusCode: 503, data: { url } })
+		}
+
+		if (status < 200 || status >= 300) {
+			throw new Boom(`Endpoint responded with ${status}`, { statusCode: status, data: { url } })
+		}
+
+		return Date.now() - startedAt
+	}
+
+	const recordDelivery = (url: string, latencyMs: number) => {
+		const endpoint = getEndpoint(url)
+		endpoint.averageLatencyMs = (endpoint.averageLatencyMs * endpoint.delivered + latencyMs) / (endpoint.delivered + 1)
+		endpoint.delivered += 1
+		endpoint.lastDeliveredAt = Date.now()
+	}
+
+	/**
+	 * @returns whether the event was delivered, or `undefined` if the endpoint rejected it
+	 * -- those aren't queued, as redelivering them would fail the same way
+	 */
+	const deliver = async (delivery: WebhookDelivery) => {
+		const endpoint = getEndpoint(delivery.url)
+		for (let attempt = 0; ; attempt++) {
+			let latencyMs: number
+			try {
+				latencyMs = await send(delivery)
+			} catch (error) {
+				endpoint.lastError = getErrorMessage(error)
+				const retryable = isRetryable(getStatusCode(error))
+				if (!retryable || attempt >= maxRetries || closed) {
+					endpoint.failed += 1
+					logger?.warn({ error, id: delivery.id, url: delivery.url }, 'failed to deliver webhook')
+					return retryable ? false : undefined
+				}
+
+				endpoint.retries += 1
+				// cut short when closing, to make one last attempt
+				const { delay, cancel } = delayCancellable(Math.min(retryDelayMs * 2 ** attempt, maxRetryDelayMs))
+				retryDelays.add(cancel)
+				await delay.catch(() => {}).finally(() => retryDelays.delete(cancel))
+				continue
+			}
+
+			recordDelivery(delivery.url, latencyMs)
+			return true
+		}
+	}
+
+	const enqueue = (delivery: WebhookDelivery) =>
+		queueMutex.mutex(async () => {
+			if (queueFile) {
+				await appendFile(queueFile, JSON.stringify(delivery) + '\n')
+				getEndpoint(delivery.url).queued += 1
+			}
+		})
+
+	const listeners = events.map(event => {
+		const listener = (data: unknown) => {
+			const body = JSON.stringify({ event, data, timestamp: Date.now() }, BufferJSON.replacer)
+			for (const url of urls) {
+				const delivery = { id: randomUUID(), url, event, body }
+				const task = deliver(delivery)
+					.then(delivered => (delivered === false ? enqueue(delivery) : undefined))
+					.catch(error => logger?.error({ error, id: delivery.id }, 'failed to queue webhook'))
+					.finally(() => inFlight.delete(task))
+				inFlight.add(task)
+			}
+		}
+
+		ev.on(event, listener)
+		return [event, listener] as const
+	})
+
+	return {
+		/** delivery metrics, per endpoint */
+		getMetrics: () => structuredClone(metrics),
+		/**
+		 * retry delivering the events in the queue file, one attempt each.
+		 * Events the endpoint rejects with a client error are dropped from the queue
+		 * @returns the number of events delivered
+		 */
+		redeliver: () =>
+			queueMutex.mutex(async () => {
+				if (!queueFile) {
+					return 0
+				}
+
+				let content: string
+				try {
+					content = await readFile(queueFile, 'utf-8')
+				} catch (error) {
+					if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+						return 0
+					}
+
+					throw error
+				}
+
+				const pending: WebhookDelivery[] = []
+				let delivered = 0
+				for (const line of content.split('\n')) {
+					if (!line) {
+						continue
+					}
+
+					const delivery: WebhookDelivery = JSON.parse(line)
+					const endpoint = getEndpoint(delivery.url)
+					let latencyMs: number
+					try {
+						latencyMs = await send(delivery)
+					} catch (error) {
+						endpoint.lastError = getErrorMessage(error)
+						if (isRetryable(getStatusCode(error))) {
+							pending.push(delivery)
+						} else {
+							endpoint.queued = Math.max(endpoint.queued - 1, 0)
+							logger?.warn({ error, id: delivery.id, url: delivery.url }, 'dropped webhook rejected by endpoint')
+						}
+
+						continue
+					}
+
+					delivered += 1
+					endpoint.queued = Math.max(endpoint.queued - 1, 0)
+					recordDelivery(delivery.url, latencyMs)
+				}
+
+				if (pending.length) {
+					await writeFile(queueFile, pending.map(delivery => JSON.stringify(delivery) + '\n').join(''))
+				} else {
+					await rm(queueFile, { force: true })
+				}
+
+				return delivered
+			}),
+		/**
+		 * stop listening for events, resolves once pending deliveries finish.
+		 * Events waiting for a retry are attempted once more, and queued if that fails
+		 */
+		async close() {
+			closed = true
+			for (const [event, listener] of listeners) {
+				ev.off(event, listener)
+			}
+
+			for (const cancel of retryDelays) {
+				cancel()
+			}
+
+			await Promise.all(inFlight)
+		}
+	}
+}
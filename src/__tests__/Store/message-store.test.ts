@@ -0,0 +1,126 @@
+import { jest } from '@jest/globals'
+import { EventEmitter } from 'events'
+import { proto } from '../../../WAProto/index.js'
+import { makeMemoryStoreDriver, makeMessageStore, makeSqliteStoreDriver, type MessageStoreConfig } from '../../Store'
+import type { BaileysEventEmitter, MessageStoreDriver, WAMessage, WAMessageRevision } from '../../Types'
+import { toNumber } from '../../Utils/generics'
+
+const jid = '1234@s.whatsapp.net'
+
+const makeMessage = (id: string, messageTimestamp: number) =>
+	({ key: { remoteJid: jid, id, fromMe: false }, messageTimestamp, message: { conversation: id } }) as WAMessage
+
+const flush = () => new Promise(resolve => setImmediate(resolve))
+
+describe.each<[string, () => Promise<MessageStoreDriver & { close?: () => Promise<void> }>]>([
+	['memory', async () => makeMemoryStoreDriver()],
+	['sqlite', () => makeSqliteStoreDriver(':memory:')]
+])('makeMessageStore with the %s driver', (_, makeDriver) => {
+	let driver: MessageStoreDriver & { close?: () => Promise<void> }
+	beforeEach(async () => {
+		driver = await makeDriver()
+	})
+	afterEach(async () => {
+		await driver.close?.()
+	})
+
+	it('should page through messages by key', async () => {
+		const ev = new EventEmitter() as unknown as BaileysEventEmitter
+		const store = makeMessageStore({ driver })
+		store.bind(ev)
+
+		ev.emit('messages.upsert', { type: 'notify', messages: [3, 1, 4, 2].map(n => makeMessage(`m${n}`, n)) })
+		await flush()
+
+		const latest = await store.loadMessages(jid, 2)
+		expect(latest.map(m => m.key.id)).toEqual(['m3', 'm4'])
+
+		const older = await store.loadMessages(jid, 2, { before: latest[0]!.key })
+		expect(older.map(m => m.key.id)).toEqual(['m1', 'm2'])
+
+		const newer = await store.loadMessages(jid, 5, { after: older[1]!.key })
+		expect(newer.map(m => m.key.id)).toEqual(['m3', 'm4'])
+
+		expect(await store.getMessage({ remoteJid: jid, id: 'm2' })).toEqual({ conversation: 'm2' })
+	})
+
+	it('should fetch history from the phone once the store runs out', async () => {
+		const ev = new EventEmitter() as unknown as BaileysEventEmitter
+		const fetchMessageHistory = jest.fn<NonNullable<MessageStoreConfig['fetchMessageHistory']>>(async () => {
+			setImmediate(() =>
+				ev.emit('messaging-history.set', {
+					chats: [],
+					contacts: [],
+					messages: [makeMessage('m2', 2), makeMessage('m1', 1)],
+					syncType: proto.HistorySync.HistorySyncType.ON_DEMAND
+				})
+			)
+			return 'request-id'
+		})
+		const store = makeMessageStore({ driver, fetchMessageHistory })
+		store.bind(ev)
+
+		ev.emit('messages.upsert', { type: 'notify', messages: [makeMessage('m3', 3)] })
+		await flush()
+
+		const messages = await store.loadMessages(jid, 3)
+		expect(fetchMessageHistory).toHaveBeenCalledWith(2, expect.objectContaining({ id: 'm3' }), expect.anything())
+		// the SQLite driver reads the timestamp back as a Long
+		expect(toNumber(fetchMessageHistory.mock.calls[0]![2])).toBe(3)
+		expect(messages.map(m => m.key.id)).toEqual(['m1', 'm2', 'm3'])
+	})
+
+	it('should only add up unread counts of chat updates', async () => {
+		const ev = new EventEmitter() as unknown as BaileysEventEmitter
+		const store = makeMessageStore({ driver })
+		store.bind(ev)
+
+		ev.emit('chats.upsert', [{ id: jid, unreadCount: 3 }])
+		ev.emit('messaging-history.set', { chats: [{ id: jid, unreadCount: 3 }], contacts: [], messages: [] })
+		await flush()
+		expect((await store.getChat(jid))?.unreadCount).toBe(3)
+
+		ev.emit('chats.update', [{ id: jid, unreadCount: 2 }])
+		await flush()
+		expect((await store.getChat(jid))?.unreadCount).toBe(5)
+	})
+
+	it('should honour the condition of chat updates', async () => {
+		const ev = new EventEmitter() as unknown as BaileysEventEmitter
+		const store = makeMessageStore({ driver })
+		store.bind(ev)
+
+		ev.emit('chats.upsert', [{ id: jid, archived: false }])
+		ev.emit('chats.update', [{ id: jid, archived: true, conditional: () => false }])
+		ev.emit('chats.update', [{ id: jid, pinned: 1, conditional: data => !!data.chatUpserts[jid] }])
+		await flush()
+
+		expect(await store.getChat(jid)).toEqual({ id: jid, archived: false, pinned: 1 })
+	})
+
+	it('should keep the edit history of messages', async () => {
+		const ev = new EventEmitter() as unknown as BaileysEventEmitter
+		const store = makeMessageStore({ driver })
+		store.bind(ev)
+
+		const key = { remoteJid: jid, id: 'm1', fromMe: false }
+		ev.emit('messages.upsert', { type: 'notify', messages: [makeMessage('m1', 1)] })
+		const revision: WAMessageRevision = {
+			type: 'edit',
+			id: 'e1',
+			message: { conversation: 'edited' },
+			timestamp: 2_000,
+			editor: jid
+		}
+		ev.emit('messages.edit-history', [{ key, revision }])
+		// received again, eg. on a retry
+		ev.emit('messages.edit-history', [{ key, revision }])
+		await flush()
+
+		const [msg] = await store.loadMessages(jid, 1)
+		expect(msg!.editHistory).toEqual([
+			{ type: 'original', id: 'm1', message: { conversation: 'm1' }, timestamp: 1_000, editor: jid },
+			revision
+		])
+	})
+})
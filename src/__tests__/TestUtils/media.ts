@@ -0,0 +1,44 @@
+import { type AxiosAdapter, AxiosError, type InternalAxiosRequestConfig } from 'axios'
+import { promises as fs } from 'fs'
+import { Readable } from 'stream'
+import type { MediaType } from '../../Defaults'
+import { encryptedStream } from '../../Utils/messages-media'
+
+/** encrypts the media like an upload would, returning the encrypted bytes instead of a file */
+export const makeEncryptedMedia = async (content: Buffer, type: MediaType = 'document') => {
+	const { encFilePath, mediaKey, fileSha256, fileEncSha256, mac } = await encryptedStream(content, type)
+	const encrypted = await fs.readFile(encFilePath)
+	await fs.unlink(encFilePath)
+	return { encrypted, mediaKey, fileSha256, fileEncSha256, mac }
+}
+
+type FakeResponse = { status: number; data?: Buffer | string; headers?: { [key: string]: string } }
+
+/**
+ * an axios adapter answering requests with the given handler instead of the network,
+ * statuses the request doesn't accept reject like a real request would
+ */
+export const makeFakeAdapter =
+	(handle: (config: InternalAxiosRequestConfig, body: Buffer) => FakeResponse | Promise<FakeResponse>): AxiosAdapter =>
+	async config => {
+		const chunks: Buffer[] = []
+		if (config.data instanceof Readable) {
+			for await (const chunk of config.data) {
+				chunks.push(chunk)
+			}
+		}
+
+		const { status, data = Buffer.alloc(0), headers = {} } = await handle(config, Buffer.concat(chunks))
+		const response = {
+			status,
+			statusText: `${status}`,
+			headers,
+			config,
+			data: config.responseType === 'stream' ? Readable.from([data]) : data
+		}
+		if (!(config.validateStatus?.(status) ?? status < 400)) {
+			throw new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_REQUEST', config, {}, response)
+		}
+
+		return response
+	}
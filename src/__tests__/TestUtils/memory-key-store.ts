@@ -0,0 +1,38 @@
+import type { SignalDataSet, SignalDataTypeMap, SignalKeyStore } from '../../Types'
+
+/**
+ * Creates a minimal in-memory key store for tests, values are stored as is.
+ * @returns the raw data, keyed by "type.id", and the store
+ */
+export const makeMemoryKeyStore = () => {
+	const data: { [key: string]: unknown } = {}
+	const store: SignalKeyStore = {
+		get: <T extends keyof SignalDataTypeMap>(type: T, ids: string[]) => {
+			const result: { [id: string]: SignalDataTypeMap[T] } = {}
+			for (const id of ids) {
+				if (data[`${type}.${id}`]) {
+					result[id] = data[`${type}.${id}`] as SignalDataTypeMap[T]
+				}
+			}
+
+			return result
+		},
+		set: (set: SignalDataSet) => {
+			for (const type in set) {
+				for (const [id, value] of Object.entries(set[type as keyof SignalDataTypeMap]!)) {
+					if (value) {
+						data[`${type}.${id}`] = value
+					} else {
+						delete data[`${type}.${id}`]
+					}
+				}
+			}
+		},
+		list: type =>
+			Object.keys(data)
+				.filter(key => key.startsWith(`${type}.`))
+				.map(key => key.slice(type.length + 1))
+	}
+
+	return { data, store }
+}
@@ -0,0 +1,33 @@
+import { createCipheriv, createHash, createHmac, randomBytes } from 'crypto'
+import { proto } from '../../../WAProto/index.js'
+
+type PollVoteContext = {
+	pollCreatorJid: string
+	pollMsgId: string
+	pollEncKey: Uint8Array
+	voterJid: string
+}
+
+/**
+ * Encrypts a poll vote the way WA clients do, without going through the library,
+ * so the decryption can be tested against it.
+ */
+export const encryptPollVote = (
+	selectedOptions: string[],
+	{ pollCreatorJid, pollMsgId, pollEncKey, voterJid }: PollVoteContext
+): proto.Message.IPollEncValue => {
+	const key0 = createHmac('sha256', Buffer.alloc(32)).update(pollEncKey).digest()
+	const encKey = createHmac('sha256', key0)
+		.update(Buffer.concat([Buffer.from(`${pollMsgId}${pollCreatorJid}${voterJid}Poll Vote`), Buffer.from([1])]))
+		.digest()
+
+	const vote = proto.Message.PollVoteMessage.encode({
+		selectedOptions: selectedOptions.map(option => createHash('sha256').update(option).digest())
+	}).finish()
+
+	const encIv = randomBytes(12)
+	const cipher = createCipheriv('aes-256-gcm', encKey, encIv)
+	cipher.setAAD(Buffer.from(`${pollMsgId}\u0000${voterJid}`))
+	const encPayload = Buffer.concat([cipher.update(vote), cipher.final(), cipher.getAuthTag()])
+	return { encPayload, encIv }
+}
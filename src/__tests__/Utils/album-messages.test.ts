@@ -0,0 +1,47 @@
+import { proto } from '../../../WAProto/index.js'
+import type { MessageGenerationOptions } from '../../Types'
+import logger from '../../Utils/logger'
+import { generateWAAlbumMessages } from '../../Utils/messages'
+
+const JID = '1234@s.whatsapp.net'
+
+const options: MessageGenerationOptions = {
+	logger,
+	userJid: '5678@s.whatsapp.net',
+	messageId: 'ALBUM',
+	upload: async () => ({ mediaUrl: 'https://mmg.whatsapp.net/media', directPath: '/media' })
+}
+
+const image = (content: string) => ({ image: Buffer.from(content), jpegThumbnail: '' })
+
+describe('generateWAAlbumMessages', () => {
+	it('should link the items to the album message', async () => {
+		const quoted = { key: { remoteJid: JID, id: 'QUOTED', fromMe: false }, message: { conversation: 'hi' } }
+		const { parent, items } = await generateWAAlbumMessages(JID, [image('a'), { ...image('b'), caption: 'b' }], {
+			...options,
+			quoted
+		})
+
+		expect(parent.key.id).toBe('ALBUM')
+		expect(parent.message?.albumMessage).toEqual(expect.objectContaining({ expectedImageCount: 2 }))
+		expect(parent.message?.albumMessage?.contextInfo?.stanzaId).toBe('QUOTED')
+
+		expect(items).toHaveLength(2)
+		expect(new Set(items.map(({ key }) => key.id)).size).toBe(2)
+		for (const { key, message } of items) {
+			expect(key.id).not.toBe('ALBUM')
+			expect(message?.messageContextInfo?.messageAssociation).toEqual({
+				associationType: proto.MessageAssociation.AssociationType.MEDIA_ALBUM,
+				parentMessageKey: parent.key
+			})
+			// only the album quotes
+			expect(message?.imageMessage?.contextInfo?.stanzaId).toBeUndefined()
+		}
+
+		expect(items[1]!.message?.imageMessage?.caption).toBe('b')
+	})
+
+	it('should need at least 2 items', async () => {
+		await expect(generateWAAlbumMessages(JID, [image('a')], options)).rejects.toThrow('An album needs at least 2 items')
+	})
+})
@@ -0,0 +1,88 @@
+import { randomBytes } from 'crypto'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { proto } from '../../../WAProto/index.js'
+import type { AuthenticationState } from '../../Types'
+import { isEncryptedAuthValue, makeAuthStateCipher, makeEncryptedSignalKeyStore } from '../../Utils/auth-encryption'
+import { useMultiFileAuthState } from '../../Utils/use-multi-file-auth-state'
+import { useSqliteAuthState } from '../../Utils/use-sqlite-auth-state'
+import { makeMemoryKeyStore } from '../TestUtils/memory-key-store'
+
+describe('makeAuthStateCipher', () => {
+	it('should round trip values with a KMS-style key', async () => {
+		const key = randomBytes(32)
+		const cipher = makeAuthStateCipher({ getKey: () => key })
+		const value = { id: 1, secret: Buffer.from('hello') }
+
+		const encrypted = await cipher.encrypt(value, 'creds')
+		expect(isEncryptedAuthValue(encrypted)).toBe(true)
+		expect(encrypted.salt).toBeUndefined()
+		expect(encrypted.ciphertext.includes(Buffer.from('hello'))).toBe(false)
+
+		expect(await cipher.decrypt(encrypted, 'creds')).toEqual(value)
+	})
+
+	it('should reject a value moved to a different context', async () => {
+		const cipher = makeAuthStateCipher({ getKey: () => randomBytes(32) })
+		const encrypted = await cipher.encrypt({ a: 1 }, 'session-1.0')
+
+		await expect(cipher.decrypt(encrypted, 'session-2.0')).rejects.toThrow('Failed to decrypt')
+	})
+
+	it('should decrypt passphrase values with a new cipher instance', async () => {
+		const encrypted = await makeAuthStateCipher({ passphrase: 'correct horse' }).encrypt({ a: 1 }, 'creds')
+		expect(encrypted.salt).toHaveLength(16)
+
+		expect(await makeAuthStateCipher({ passphrase: 'correct horse' }).decrypt(encrypted, 'creds')).toEqual({ a: 1 })
+		await expect(makeAuthStateCipher({ passphrase: 'wrong' }).decrypt(encrypted, 'creds')).rejects.toThrow()
+	})
+})
+
+describe('makeEncryptedSignalKeyStore', () => {
+	it('should only hand encrypted values to the underlying store', async () => {
+		const { data, store } = makeMemoryKeyStore()
+		const keys = makeEncryptedSignalKeyStore(store, makeAuthStateCipher({ getKey: () => randomBytes(32) }))
+
+		await keys.set({ session: { '123.0': Buffer.from('session') }, 'sender-key': { abc: null } })
+		expect(isEncryptedAuthValue(data['session.123.0'])).toBe(true)
+
+		const { '123.0': session } = await keys.get('session', ['123.0'])
+		expect(session).toEqual(Buffer.from('session'))
+	})
+
+	it('should read values stored before encryption was enabled', async () => {
+		const { store } = makeMemoryKeyStore()
+		await store.set({ 'device-list': { '123': ['0', '1'] } })
+
+		const keys = makeEncryptedSignalKeyStore(store, makeAuthStateCipher({ getKey: () => randomBytes(32) }))
+		expect(await keys.get('device-list', ['123'])).toEqual({ '123': ['0', '1'] })
+	})
+
+	describe('wrapping the built-in stores', () => {
+		let dir: string
+		beforeEach(() => {
+			dir = mkdtempSync(join(tmpdir(), 'encrypted-keys-'))
+		})
+		afterEach(() => {
+			rmSync(dir, { recursive: true, force: true })
+		})
+
+		it.each<[string, (dir: string) => Promise<{ state: AuthenticationState; close?: () => Promise<void> }>]>([
+			['useMultiFileAuthState', dir => useMultiFileAuthState(dir)],
+			['useSqliteAuthState', dir => useSqliteAuthState(join(dir, 'auth.db'))]
+		])('should read app state sync keys back from %s', async (_, useAuthState) => {
+			const { state, close } = await useAuthState(dir)
+			const keys = makeEncryptedSignalKeyStore(state.keys, makeAuthStateCipher({ passphrase: 'secret' }))
+
+			await keys.set({ 'app-state-sync-key': { abc: { keyData: Buffer.from('key') } } })
+			const { abc: stored } = await state.keys.get('app-state-sync-key', ['abc'])
+			expect(isEncryptedAuthValue(stored)).toBe(true)
+
+			const { abc } = await keys.get('app-state-sync-key', ['abc'])
+			expect(abc).toBeInstanceOf(proto.Message.AppStateSyncKeyData)
+			expect(Buffer.from(abc!.keyData!)).toEqual(Buffer.from('key'))
+			await close?.()
+		})
+	})
+})
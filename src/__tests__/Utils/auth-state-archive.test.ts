@@ -0,0 +1,119 @@
+import { createHash } from 'crypto'
+import { mkdtemp, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { Readable } from 'stream'
+import type { AuthenticationCreds } from '../../Types'
+import { exportAuthState, importAuthState, migrateAuthState } from '../../Utils/auth-state-archive'
+import { BufferJSON } from '../../Utils/generics'
+import { useMultiFileAuthState } from '../../Utils/use-multi-file-auth-state'
+
+const creds = {
+	noiseKey: { public: Buffer.alloc(32, 1), private: Buffer.alloc(32, 2) },
+	registrationId: 1234,
+	nextPreKeyId: 3,
+	firstUnuploadedPreKeyId: 3,
+	registered: true
+} as unknown as AuthenticationCreds
+
+const collect = async (stream: AsyncIterable<string>) => {
+	let text = ''
+	for await (const chunk of stream) {
+		text += chunk
+	}
+
+	return text
+}
+
+describe('Auth State Archive', () => {
+	let folders: string[] = []
+
+	const makeState = async () => {
+		const folder = await mkdtemp(join(tmpdir(), 'baileys-archive-'))
+		folders.push(folder)
+		// write creds up front, so no new keys have to be generated
+		await writeFile(join(folder, 'creds.json'), JSON.stringify({ registrationId: 0 }, BufferJSON.replacer))
+		return useMultiFileAuthState(folder)
+	}
+
+	afterEach(async () => {
+		await Promise.all(folders.map(folder => rm(folder, { recursive: true, force: true })))
+		folders = []
+	})
+
+	it('should migrate creds & keys between auth states', async () => {
+		const source = await makeState()
+		Object.assign(source.state.creds, creds)
+		await source.state.keys.set({
+			'pre-key': { '1': { public: Buffer.alloc(32, 3), private: Buffer.alloc(32, 4) } },
+			session: { '1234.0': Buffer.from('session') },
+			'sender-key': { '123-456@g.us::1234::0': Buffer.from('sender key') },
+			'sender-key-memory': { '123-456@g.us': { '1234:0@s.whatsapp.net': true } },
+			'device-list': { '1234': ['0', '2'] }
+		})
+
+		const target = await makeState()
+		const result = await migrateAuthState(source, target)
+
+		expect(result.keys).toEqual({
+			'pre-key': 1,
+			session: 1,
+			'sender-key': 1,
+			'sender-key-memory': 1,
+			'device-list': 1
+		})
+		expect(target.state.creds).toEqual(expect.objectContaining(creds))
+		expect(await target.state.keys.get('sender-key', ['123-456@g.us::1234::0'])).toEqual({
+			'123-456@g.us::1234::0': Buffer.from('sender key')
+		})
+		expect(await target.state.keys.list!('sender-key')).toEqual(['123-456@g.us::1234::0'])
+	})
+
+	it('should reject a tampered archive without saving creds', async () => {
+		const source = await makeState()
+		Object.assign(source.state.creds, creds)
+		await source.state.keys.set({ session: { '1234.0': Buffer.from('session') } })
+
+		const archive = await collect(exportAuthState(source.state))
+		const tampered = archive.replace(
+			Buffer.from('session').toString('base64'),
+			Buffer.from('tampered').toString('base64')
+		)
+
+		const target = await makeState()
+		await expect(importAuthState(target, Readable.from([tampered]))).rejects.toThrow('Checksum mismatch')
+		expect(target.state.creds.registrationId).toBe(0)
+	})
+
+	it('should reject a truncated archive', async () => {
+		const source = await makeState()
+		const archive = await collect(exportAuthState(source.state))
+		const truncated = archive.split('\n').slice(0, 2).join('\n')
+
+		await expect(importAuthState(await makeState(), Readable.from([truncated]))).rejects.toThrow('truncated')
+	})
+
+	it('should reject unknown entries', async () => {
+		const source = await makeState()
+		const [header, ...rest] = (await collect(exportAuthState(source.state))).split('\n')
+		const archive = [header, JSON.stringify({ kind: 'blob', value: 'x' }), ...rest].join('\n')
+
+		await expect(importAuthState(await makeState(), Readable.from([archive]))).rejects.toThrow('Unknown entry')
+	})
+
+	it('should reject unknown key categories', async () => {
+		const source = await makeState()
+		const [header, ...rest] = (await collect(exportAuthState(source.state))).split('\n')
+		const value = JSON.stringify({ a: 1 })
+		const sha256 = createHash('sha256').update(value).digest('hex')
+		const archive = [header, JSON.stringify({ kind: 'key', category: 'blob', id: '1', value, sha256 }), ...rest].join(
+			'\n'
+		)
+
+		const target = await makeState()
+		await expect(importAuthState(target, Readable.from([archive]))).rejects.toMatchObject({
+			output: { statusCode: 400 },
+			data: { lineNo: 2, category: 'blob' }
+		})
+	})
+})
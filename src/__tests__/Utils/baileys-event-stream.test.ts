@@ -0,0 +1,85 @@
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import type { BaileysEventMap } from '../../Types'
+import { captureEventStream, type EventStreamFilter, readAndEmitEventStream } from '../../Utils/baileys-event-stream'
+import { makeEventBuffer } from '../../Utils/event-buffer'
+import logger from '../../Utils/logger'
+
+const makeUpdate = (id: string) => ({ id, unreadCount: 1 })
+
+/** replays the files & collects the chat updates emitted */
+const replayChatUpdates = async (files: string[], filter: EventStreamFilter = {}) => {
+	const { ev, task } = readAndEmitEventStream(files, { speed: Infinity, ...filter })
+	const updates: BaileysEventMap['chats.update'] = []
+	ev.on('chats.update', chatUpdates => updates.push(...chatUpdates))
+	await task
+	return updates
+}
+
+describe('Event Stream', () => {
+	let dir: string
+
+	beforeEach(async () => {
+		dir = await mkdtemp(join(tmpdir(), 'baileys-event-stream-'))
+	})
+
+	afterEach(async () => {
+		await rm(dir, { recursive: true, force: true })
+	})
+
+	it('should replay captured events, gzipped without a ".gz" extension', async () => {
+		const ev = makeEventBuffer(logger)
+		const capture = captureEventStream(ev, join(dir, 'events.jsonl'), { gzip: true })
+
+		ev.emit('chats.update', [makeUpdate('a@s.whatsapp.net')])
+		ev.emit('creds.update', {
+			advSecretKey: 'secret',
+			noiseKey: { public: Buffer.from([1]), private: Buffer.from([2]) }
+		})
+		ev.emit('chats.update', [makeUpdate('b@s.whatsapp.net')])
+		await capture.stop()
+
+		const { ev: replayed, task } = readAndEmitEventStream(capture.getFiles(), { speed: Infinity })
+		const events: unknown[] = []
+		replayed.on('chats.update', updates => events.push(updates))
+		replayed.on('creds.update', update => events.push(update))
+		await task
+
+		expect(events).toEqual([
+			[makeUpdate('a@s.whatsapp.net')],
+			{ advSecretKey: 'secret', noiseKey: { public: Buffer.from([1]), private: Buffer.from([2]) } },
+			[makeUpdate('b@s.whatsapp.net')]
+		])
+	})
+
+	it('should rotate files with unique names & replay them in order', async () => {
+		const ev = makeEventBuffer(logger)
+		const capture = captureEventStream(ev, join(dir, 'events.jsonl'), { maxFileSize: 1 })
+
+		const ids = ['a', 'b', 'c', 'd'].map(id => `${id}@s.whatsapp.net`)
+		for (const id of ids) {
+			ev.emit('chats.update', [makeUpdate(id)])
+		}
+
+		await capture.stop()
+
+		const files = capture.getFiles()
+		expect(files).toHaveLength(ids.length)
+		expect(new Set(files).size).toBe(ids.length)
+		expect((await replayChatUpdates(files)).map(({ id }) => id)).toEqual(ids)
+	})
+
+	it('should filter events by name & JID', async () => {
+		const ev = makeEventBuffer(logger)
+		const capture = captureEventStream(ev, join(dir, 'events.jsonl'), { exclude: ['creds.update'] })
+
+		ev.emit('creds.update', { advSecretKey: 'secret' })
+		ev.emit('chats.update', [makeUpdate('a@s.whatsapp.net')])
+		ev.emit('chats.update', [makeUpdate('b@s.whatsapp.net')])
+		await capture.stop()
+
+		const updates = await replayChatUpdates(capture.getFiles(), { excludeJids: ['a@s.whatsapp.net'] })
+		expect(updates).toEqual([makeUpdate('b@s.whatsapp.net')])
+	})
+})
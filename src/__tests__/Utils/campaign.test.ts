@@ -0,0 +1,134 @@
+import { Boom } from '@hapi/boom'
+import { jest } from '@jest/globals'
+import { proto } from '../../../WAProto/index.js'
+import { DisconnectReason } from '../../Types'
+import { type CampaignConfig, makeCampaign } from '../../Utils/campaign'
+import { makeEventBuffer } from '../../Utils/event-buffer'
+import { delay } from '../../Utils/generics'
+import logger from '../../Utils/logger'
+
+const makeConfig = (send: (jid: string) => Promise<void> = async () => {}) => {
+	const sent: string[] = []
+	const config: CampaignConfig = {
+		ev: makeEventBuffer(logger),
+		logger,
+		onWhatsApp: async (...numbers) =>
+			numbers.map(number => ({ jid: `${number}@s.whatsapp.net`, exists: !number.startsWith('0') })),
+		sendMessage: async jid => {
+			await send(jid)
+			sent.push(jid)
+			return { key: { remoteJid: jid, id: `msg-${sent.length}`, fromMe: true } }
+		},
+		generateContent: async () => ({}),
+		sendContent: async () => {
+			throw new Error('no media in these tests')
+		}
+	}
+	return { config, sent }
+}
+
+const waitFor = async (check: () => boolean) => {
+	for (let i = 0; i < 100 && !check(); i++) {
+		await delay(5)
+	}
+}
+
+describe('makeCampaign', () => {
+	it('should send to the recipients on WhatsApp & track their status', async () => {
+		const { config, sent } = makeConfig()
+		const onUpdate = jest.fn()
+		const campaign = makeCampaign(config, {
+			recipients: ['+1 234', '0999'],
+			content: { text: 'hi' },
+			delayMs: [0, 0],
+			onUpdate
+		})
+
+		const progress = await campaign.start()
+		expect(sent).toEqual(['1234@s.whatsapp.net'])
+		expect(progress).toEqual(expect.objectContaining({ state: 'completed', sent: 1, failed: 1 }))
+
+		config.ev.emit('messages.update', [
+			{ key: { id: 'msg-1', fromMe: true }, update: { status: proto.WebMessageInfo.Status.DELIVERY_ACK } }
+		])
+		// statuses only move forward
+		config.ev.emit('messages.update', [
+			{ key: { id: 'msg-1', fromMe: true }, update: { status: proto.WebMessageInfo.Status.SERVER_ACK } }
+		])
+		expect(campaign.getRecipients()).toEqual([
+			expect.objectContaining({ id: '+1 234', status: 'delivered', messageId: 'msg-1' }),
+			expect.objectContaining({ id: '0999', status: 'failed', error: 'Not on WhatsApp' })
+		])
+		const counts = { total: 2, pending: 0, sent: 0, 'server-ack': 0, delivered: 1, read: 0, failed: 1 }
+		expect(campaign.getProgress()).toEqual({ state: 'completed', ...counts })
+		expect(onUpdate).toHaveBeenLastCalledWith(
+			expect.objectContaining({ status: 'delivered' }),
+			expect.objectContaining(counts)
+		)
+		campaign.close()
+	})
+
+	it('should pause when the connection closes & resume once it opens', async () => {
+		let isOpen = false
+		const { config, sent } = makeConfig(async () => {
+			if (!isOpen) {
+				throw new Boom('Connection Closed', { statusCode: DisconnectReason.connectionClosed })
+			}
+		})
+		const campaign = makeCampaign(config, { recipients: ['1234'], content: { text: 'hi' }, delayMs: [0, 0] })
+
+		const done = campaign.start()
+		await waitFor(() => campaign.getProgress().state === 'paused')
+		expect(campaign.getProgress()).toEqual(expect.objectContaining({ state: 'paused', pending: 1 }))
+
+		isOpen = true
+		config.ev.emit('connection.update', { connection: 'open' })
+		expect(await done).toEqual(expect.objectContaining({ state: 'completed', sent: 1 }))
+		expect(sent).toEqual(['1234@s.whatsapp.net'])
+		campaign.close()
+	})
+
+	it('should continue on a new socket once bound to it', async () => {
+		const closed = makeConfig(async () => {
+			throw new Boom('Connection Closed', { statusCode: DisconnectReason.connectionClosed })
+		})
+		const campaign = makeCampaign(closed.config, {
+			recipients: ['1234', '5678'],
+			content: { text: 'hi' },
+			delayMs: [0, 0]
+		})
+
+		const done = campaign.start()
+		await waitFor(() => campaign.getProgress().state === 'paused')
+
+		const reconnected = makeConfig()
+		campaign.bind(reconnected.config)
+		expect(await done).toEqual(expect.objectContaining({ state: 'completed', sent: 2 }))
+		expect(reconnected.sent).toEqual(['1234@s.whatsapp.net', '5678@s.whatsapp.net'])
+
+		// receipts are tracked from the new socket only
+		closed.config.ev.emit('message-receipt.update', [
+			{ key: { id: 'msg-1', fromMe: true }, receipt: { userJid: '1234@s.whatsapp.net', readTimestamp: 1 } }
+		])
+		expect(campaign.getRecipients()[0]).toEqual(expect.objectContaining({ status: 'sent' }))
+		reconnected.config.ev.emit('message-receipt.update', [
+			{ key: { id: 'msg-1', fromMe: true }, receipt: { userJid: '1234@s.whatsapp.net', readTimestamp: 1 } }
+		])
+		expect(campaign.getRecipients()[0]).toEqual(expect.objectContaining({ status: 'read' }))
+		campaign.close()
+	})
+
+	it('should not resume a campaign paused by the caller when the connection opens', async () => {
+		const { config, sent } = makeConfig()
+		const campaign = makeCampaign(config, { recipients: ['1234'], content: { text: 'hi' }, delayMs: [0, 0] })
+
+		campaign.start()
+		campaign.pause()
+		await delay(10)
+		config.ev.emit('connection.update', { connection: 'open' })
+		await delay(10)
+
+		expect(sent).toEqual([])
+		campaign.close()
+	})
+})
@@ -0,0 +1,31 @@
+import { proto } from '../../../WAProto/index.js'
+import { makeDeliveryTracker } from '../../Utils/delivery-tracker'
+
+const key = { remoteJid: '1234@s.whatsapp.net', fromMe: true, id: 'ABCD' }
+
+describe('makeDeliveryTracker', () => {
+	it('should resolve once the status or a later one is reached', async () => {
+		const tracker = makeDeliveryTracker()
+		const delivered = tracker.track(key).until('delivered')
+
+		tracker.handleAck(key)
+		tracker.handleReceipt([key.id], proto.WebMessageInfo.Status.READ)
+		// an out of order receipt doesn't go back
+		tracker.handleReceipt([key.id], proto.WebMessageInfo.Status.DELIVERY_ACK)
+
+		await expect(delivered).resolves.toBe('read')
+		// statuses received before tracking are kept
+		await expect(tracker.track(key).until('server-ack')).resolves.toBe('read')
+		expect(tracker.track(key).getStatus()).toBe('read')
+	})
+
+	it('should reject on an error ack or timeout', async () => {
+		const tracker = makeDeliveryTracker()
+		const delivered = tracker.track(key).until('delivered')
+
+		tracker.handleAck(key, '463')
+
+		await expect(delivered).rejects.toMatchObject({ output: { statusCode: 463 }, data: { key, code: 463 } })
+		await expect(tracker.track({ ...key, id: 'EFGH' }).until('read', { timeoutMs: 10 })).rejects.toThrow('Timed Out')
+	})
+})
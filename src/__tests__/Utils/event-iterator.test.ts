@@ -0,0 +1,105 @@
+import { makeEventBuffer } from '../../Utils/event-buffer'
+import { iterateEvent, waitForEvent } from '../../Utils/generics'
+import logger from '../../Utils/logger'
+
+const makeUpdate = (id: string) => ({ id, unreadCount: 1 })
+
+describe('iterateEvent', () => {
+	it('should yield events in order to a slow consumer', async () => {
+		const ev = makeEventBuffer(logger)
+		const iterator = iterateEvent(ev, 'chats.update', { filter: updates => updates[0]!.id !== 'skip' })
+
+		for (const id of ['a', 'skip', 'b', 'c']) {
+			ev.emit('chats.update', [makeUpdate(id)])
+		}
+
+		const ids: string[] = []
+		for await (const [update] of iterator) {
+			await new Promise(resolve => setImmediate(resolve))
+			ids.push(update!.id!)
+			if (update!.id === 'c') {
+				break
+			}
+		}
+
+		expect(ids).toEqual(['a', 'b', 'c'])
+	})
+
+	it('should end when the connection closes or the signal aborts', async () => {
+		const ev = makeEventBuffer(logger)
+		const controller = new AbortController()
+		const onClose = iterateEvent(ev, 'chats.update')
+		const onAbort = iterateEvent(ev, 'chats.update', { signal: controller.signal })
+
+		ev.emit('chats.update', [makeUpdate('a')])
+		controller.abort()
+		ev.emit('connection.update', { connection: 'close' })
+
+		expect(await onClose.next()).toEqual({ done: false, value: [makeUpdate('a')] })
+		expect(await onClose.next()).toEqual({ done: true, value: undefined })
+		expect(await onAbort.next()).toEqual({ done: false, value: [makeUpdate('a')] })
+		expect(await onAbort.next()).toEqual({ done: true, value: undefined })
+	})
+
+	it('should fail once a consumer falls too far behind', async () => {
+		const ev = makeEventBuffer(logger)
+		const iterator = iterateEvent(ev, 'chats.update', { highWaterMark: 1 })
+
+		ev.emit('chats.update', [makeUpdate('a')])
+		ev.emit('chats.update', [makeUpdate('b')])
+
+		await iterator.next()
+		await expect(iterator.next()).rejects.toThrow('Event consumer too slow')
+	})
+
+	it('should fail the iterator, not the emit, when the filter throws', async () => {
+		const ev = makeEventBuffer(logger)
+		const iterator = iterateEvent(ev, 'chats.update', {
+			filter: ([update]) => {
+				if (update!.id === 'bad') {
+					throw new Error('bad filter')
+				}
+
+				return true
+			}
+		})
+
+		ev.emit('chats.update', [makeUpdate('a')])
+		expect(() => ev.emit('chats.update', [makeUpdate('bad')])).not.toThrow()
+
+		expect(await iterator.next()).toEqual({ done: false, value: [makeUpdate('a')] })
+		await expect(iterator.next()).rejects.toThrow('bad filter')
+	})
+})
+
+describe('waitForEvent', () => {
+	it('should resolve with the first matching event', async () => {
+		const ev = makeEventBuffer(logger)
+		const promise = waitForEvent(ev, 'chats.update', { filter: ([update]) => update!.id === 'b' })
+
+		ev.emit('chats.update', [makeUpdate('a')])
+		ev.emit('chats.update', [makeUpdate('b')])
+
+		expect(await promise).toEqual([makeUpdate('b')])
+	})
+
+	it('should reject on timeout', async () => {
+		const ev = makeEventBuffer(logger)
+		await expect(waitForEvent(ev, 'chats.update', { timeoutMs: 10 })).rejects.toThrow('Timed Out')
+	})
+})
+
+describe('event emitter', () => {
+	it('should iterate & wait for events on the emitter', async () => {
+		const ev = makeEventBuffer(logger)
+		const iterator = ev.iterate('chats.update', { filter: ([update]) => update!.id !== 'a' })
+		const promise = ev.once('chats.update')
+
+		ev.emit('chats.update', [makeUpdate('a')])
+		ev.emit('chats.update', [makeUpdate('b')])
+
+		expect(await promise).toEqual([makeUpdate('a')])
+		expect(await iterator.next()).toEqual({ done: false, value: [makeUpdate('b')] })
+		await iterator.return!()
+	})
+})
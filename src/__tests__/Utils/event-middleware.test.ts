@@ -0,0 +1,139 @@
+import { makeEventBuffer } from '../../Utils/event-buffer'
+import logger from '../../Utils/logger'
+
+const makeUpdate = (id: string) => ({ id, unreadCount: 1 })
+
+const flushPromises = () => new Promise(resolve => setImmediate(resolve))
+
+describe('Event Middleware', () => {
+	it('should deliver events in order through async middlewares', async () => {
+		const ev = makeEventBuffer(logger)
+		const ids: string[] = []
+		ev.on('chats.update', ([update]) => ids.push(update!.id!))
+		ev.use(async (event, data, next) => {
+			if (event === 'chats.update' && data[0]!.id === 'a') {
+				await new Promise(resolve => setTimeout(resolve, 10))
+			}
+
+			await next()
+		})
+
+		for (const id of ['a', 'b', 'c']) {
+			ev.emit('chats.update', [makeUpdate(id)])
+		}
+
+		await new Promise(resolve => setTimeout(resolve, 30))
+		expect(ids).toEqual(['a', 'b', 'c'])
+	})
+
+	it('should call internal listeners synchronously & with the original data', () => {
+		const ev = makeEventBuffer(logger)
+		const received: unknown[] = []
+		ev.onInternal('creds.update', update => received.push(update))
+		ev.use(async (event, _data, next) => {
+			await flushPromises()
+			if (event === 'creds.update') {
+				await next({})
+			}
+		})
+
+		ev.emit('creds.update', { registered: true })
+		expect(received).toEqual([{ registered: true }])
+	})
+
+	it('should keep the order when a middleware is removed while events are queued', async () => {
+		const ev = makeEventBuffer(logger)
+		const ids: string[] = []
+		ev.on('chats.update', ([update]) => ids.push(update!.id!))
+		const remove = ev.use(async (_event, _data, next) => {
+			await flushPromises()
+			await next()
+		})
+
+		ev.emit('chats.update', [makeUpdate('a')])
+		remove()
+		ev.emit('chats.update', [makeUpdate('b')])
+		expect(ids).toEqual([])
+
+		await flushPromises()
+		await flushPromises()
+		expect(ids).toEqual(['a', 'b'])
+
+		// the queue has drained, so events are delivered synchronously again
+		ev.emit('chats.update', [makeUpdate('c')])
+		expect(ids).toEqual(['a', 'b', 'c'])
+	})
+
+	it('should pass the event on when a middleware throws', async () => {
+		const ev = makeEventBuffer(logger)
+		const ids: string[] = []
+		ev.on('chats.update', ([update]) => ids.push(update!.id!))
+		ev.use(async (event, data, next) => {
+			if (event === 'chats.update' && data[0]!.id === 'a') {
+				throw new Error('middleware failed')
+			}
+
+			await next()
+		})
+		ev.use(async (_event, _data, next) => {
+			await next()
+		})
+
+		ev.emit('chats.update', [makeUpdate('a')])
+		ev.emit('chats.update', [makeUpdate('b')])
+		await flushPromises()
+
+		expect(ids).toEqual(['a', 'b'])
+	})
+
+	it('should deliver queued events before removing all listeners', async () => {
+		const ev = makeEventBuffer(logger)
+		const connections: unknown[] = []
+		ev.on('connection.update', ({ connection }) => connections.push(connection))
+		ev.use(async (_event, _data, next) => {
+			await flushPromises()
+			await next()
+		})
+
+		ev.emit('connection.update', { connection: 'close' })
+		ev.removeAllListeners('connection.update')
+		await flushPromises()
+		await flushPromises()
+
+		expect(connections).toEqual(['close'])
+		ev.emit('connection.update', { connection: 'open' })
+		await flushPromises()
+		await flushPromises()
+		expect(connections).toEqual(['close'])
+	})
+
+	it('should keep listeners added after removing all listeners while events are queued', async () => {
+		const ev = makeEventBuffer(logger)
+		const before: unknown[] = []
+		const after: unknown[] = []
+		ev.on('connection.update', ({ connection }) => before.push(connection))
+		ev.use(async (_event, _data, next) => {
+			await flushPromises()
+			await next()
+		})
+
+		ev.emit('connection.update', { connection: 'close' })
+		ev.removeAllListeners('connection.update')
+		ev.on('connection.update', ({ connection }) => after.push(connection))
+		ev.emit('connection.update', { connection: 'open' })
+		for (let i = 0; i < 4; i++) {
+			await flushPromises()
+		}
+
+		expect(before).toEqual(['close'])
+		expect(after).toEqual(['open'])
+	})
+
+	it('should report whether an emitted event had listeners', () => {
+		const ev = makeEventBuffer(logger)
+		expect(ev.emit('chats.update', [makeUpdate('a')])).toBe(false)
+
+		ev.on('chats.update', () => {})
+		expect(ev.emit('chats.update', [makeUpdate('a')])).toBe(true)
+	})
+})
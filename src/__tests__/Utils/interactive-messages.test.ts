@@ -0,0 +1,83 @@
+import { generateInteractiveMessage } from '../../Utils/interactive-messages'
+import { getInteractiveBizNode, parseInteractiveResponse } from '../../Utils/messages'
+
+const prepareMedia = async () => {
+	throw new Error('no media expected')
+}
+
+describe('interactive messages', () => {
+	it('should build native flow buttons & lists', async () => {
+		const message = await generateInteractiveMessage(
+			{
+				body: 'Pick one',
+				buttons: [
+					{ type: 'reply', id: 'yes', text: 'Yes' },
+					{ type: 'url', text: 'Website', url: 'https://example.com' }
+				]
+			},
+			prepareMedia
+		)
+		expect(message.nativeFlowMessage?.buttons?.map(({ name }) => name)).toEqual(['quick_reply', 'cta_url'])
+		expect(JSON.parse(message.nativeFlowMessage!.buttons![0]!.buttonParamsJson!)).toEqual({
+			display_text: 'Yes',
+			id: 'yes'
+		})
+
+		const list = await generateInteractiveMessage(
+			{ body: 'Menu', list: { buttonText: 'Open', sections: [{ rows: [{ id: 'r1', title: 'Row' }] }] } },
+			prepareMedia
+		)
+		expect(list.nativeFlowMessage?.buttons?.[0]?.name).toEqual('single_select')
+	})
+
+	it('should reject content beyond the limits', async () => {
+		const reply = (id: string) => ({ type: 'reply' as const, id, text: id })
+		await expect(
+			generateInteractiveMessage({ body: 'Pick', buttons: ['a', 'b', 'c', 'd'].map(reply) }, prepareMedia)
+		).rejects.toThrow('at most 3 reply buttons')
+		await expect(
+			generateInteractiveMessage({ body: 'Pick', buttons: [reply('a'), reply('a')] }, prepareMedia)
+		).rejects.toThrow('Duplicate button ID')
+		await expect(generateInteractiveMessage({ body: 'Pick', buttons: [] }, prepareMedia)).rejects.toThrow(
+			'Expected 1 to 10 buttons'
+		)
+	})
+
+	it('should parse replies', () => {
+		expect(
+			parseInteractiveResponse({
+				interactiveResponseMessage: {
+					body: { text: 'Yes' },
+					nativeFlowResponseMessage: { name: 'quick_reply', paramsJson: '{"id":"yes"}' }
+				}
+			})
+		).toEqual({ type: 'button', id: 'yes', text: 'Yes' })
+		expect(
+			parseInteractiveResponse({
+				interactiveResponseMessage: {
+					nativeFlowResponseMessage: { name: 'galaxy_message', paramsJson: '{"flow_token":"t"}' }
+				}
+			})
+		).toEqual({ type: 'native-flow', name: 'galaxy_message', params: { flow_token: 't' } })
+		expect(parseInteractiveResponse({ conversation: 'hi' })).toBeUndefined()
+	})
+
+	it('should add the native flow biz node', async () => {
+		const interactiveMessage = await generateInteractiveMessage(
+			{ body: 'Pick one', buttons: [{ type: 'reply', id: 'yes', text: 'Yes' }] },
+			prepareMedia
+		)
+		expect(getInteractiveBizNode({ interactiveMessage })).toEqual({
+			tag: 'biz',
+			attrs: {},
+			content: [
+				{
+					tag: 'interactive',
+					attrs: { type: 'native_flow' },
+					content: [{ tag: 'native_flow', attrs: { v: '2', name: 'mixed' } }]
+				}
+			]
+		})
+		expect(getInteractiveBizNode({ conversation: 'hi' })).toBeUndefined()
+	})
+})
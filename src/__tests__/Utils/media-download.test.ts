@@ -0,0 +1,125 @@
+import { randomBytes } from 'crypto'
+import { promises as fs } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { downloadVerifiedContentToFile } from '../../Utils/messages-media'
+import { makeEncryptedMedia, makeFakeAdapter } from '../TestUtils/media'
+
+type FakeHandler = Parameters<typeof makeFakeAdapter>[0]
+
+const tamper = (buffer: Buffer, index: number) => {
+	const tampered = Buffer.from(buffer)
+	tampered[index]! ^= 1
+	return tampered
+}
+
+describe('downloadVerifiedContentToFile', () => {
+	const content = randomBytes(1000)
+	let media: Awaited<ReturnType<typeof makeEncryptedMedia>>
+	let path: string
+	beforeAll(async () => {
+		media = await makeEncryptedMedia(content)
+	})
+
+	beforeEach(() => {
+		path = join(tmpdir(), `baileys-download-${Date.now()}`)
+	})
+
+	afterEach(async () => {
+		await fs.rm(path, { force: true })
+		await fs.rm(`${path}.enc.part`, { force: true })
+	})
+
+	const download = (handle: FakeHandler, message: { fileSha256?: Buffer; fileEncSha256?: Buffer } = {}) =>
+		downloadVerifiedContentToFile(
+			{
+				url: 'https://mmg.whatsapp.net/m',
+				directPath: '/m',
+				mediaKey: media.mediaKey,
+				fileSha256: media.fileSha256,
+				fileEncSha256: media.fileEncSha256,
+				...message
+			},
+			'document',
+			path,
+			{ options: { adapter: makeFakeAdapter(handle) } }
+		)
+
+	it('should download & decrypt the media to the path', async () => {
+		await download(() => ({ status: 200, data: media.encrypted }))
+		expect(await fs.readFile(path)).toEqual(content)
+		await expect(fs.access(`${path}.enc.part`)).rejects.toThrow()
+	})
+
+	const expectIntegrityError = async (promise: Promise<unknown>, check: string) => {
+		await expect(promise).rejects.toMatchObject({ output: { statusCode: 422 }, data: { check } })
+		await expect(fs.access(path)).rejects.toThrow()
+		await expect(fs.access(`${path}.enc.part`)).rejects.toThrow()
+	}
+
+	it('should reject media with a tampered MAC', async () => {
+		const data = tamper(media.encrypted, media.encrypted.length - 1)
+		await expectIntegrityError(
+			download(() => ({ status: 200, data })),
+			'mac'
+		)
+	})
+
+	it('should reject media not matching its encrypted hash', async () => {
+		await expectIntegrityError(
+			download(() => ({ status: 200, data: media.encrypted }), { fileEncSha256: randomBytes(32) }),
+			'file-enc-sha256'
+		)
+	})
+
+	it('should reject media not matching its plain hash', async () => {
+		await expectIntegrityError(
+			download(() => ({ status: 200, data: media.encrypted }), { fileSha256: randomBytes(32) }),
+			'file-sha256'
+		)
+	})
+
+	it('should resume an interrupted download with a range request', async () => {
+		await fs.writeFile(`${path}.enc.part`, media.encrypted.subarray(0, 500))
+		const ranges: unknown[] = []
+
+		await download(({ headers }) => {
+			ranges.push(headers.Range)
+			return { status: 206, data: media.encrypted.subarray(500) }
+		})
+		expect(ranges).toEqual(['bytes=500-'])
+		expect(await fs.readFile(path)).toEqual(content)
+	})
+
+	it('should use the partial file when it is already complete', async () => {
+		await fs.writeFile(`${path}.enc.part`, media.encrypted)
+
+		await download(() => ({ status: 416 }))
+		expect(await fs.readFile(path)).toEqual(content)
+	})
+
+	it('should download again from the start when the partial file was stale', async () => {
+		await fs.writeFile(`${path}.enc.part`, randomBytes(500))
+		const ranges: unknown[] = []
+
+		await download(({ headers }) => {
+			ranges.push(headers.Range)
+			return headers.Range
+				? { status: 206, data: media.encrypted.subarray(500) }
+				: { status: 200, data: media.encrypted }
+		})
+		expect(ranges).toEqual(['bytes=500-', undefined])
+		expect(await fs.readFile(path)).toEqual(content)
+	})
+
+	it('should not download more than once from the start', async () => {
+		let requests = 0
+		await expect(
+			download(() => {
+				requests += 1
+				return { status: 200, data: tamper(media.encrypted, 0) }
+			})
+		).rejects.toMatchObject({ data: { check: 'mac' } })
+		expect(requests).toBe(1)
+	})
+})
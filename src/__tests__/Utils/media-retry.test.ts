@@ -0,0 +1,73 @@
+import { Boom } from '@hapi/boom'
+import { jest } from '@jest/globals'
+import { randomBytes } from 'crypto'
+import { proto } from '../../../WAProto/index.js'
+import type { WAMessage } from '../../Types'
+import logger from '../../Utils/logger'
+import { downloadMediaMessage } from '../../Utils/messages'
+import { decodeMediaRetryNode, getMediaRetryResult } from '../../Utils/messages-media'
+import { makeEncryptedMedia, makeFakeAdapter } from '../TestUtils/media'
+
+const ResultType = proto.MediaRetryNotification.ResultType
+
+const makeMediaMessage = (mediaKey: Uint8Array, directPath: string): WAMessage => ({
+	key: { remoteJid: '1234@s.whatsapp.net', id: 'MEDIA', fromMe: false },
+	message: { documentMessage: { url: `https://mmg.whatsapp.net${directPath}`, directPath, mediaKey } }
+})
+
+describe('media retry', () => {
+	it('should map the retry results', () => {
+		expect(getMediaRetryResult(ResultType.SUCCESS)).toBe('success')
+		expect(getMediaRetryResult(ResultType.NOT_FOUND)).toBe('not-found')
+		expect(getMediaRetryResult(ResultType.DECRYPTION_ERROR)).toBe('decryption-error')
+		expect(getMediaRetryResult(ResultType.GENERAL_ERROR)).toBe('general-error')
+		expect(getMediaRetryResult(99)).toBe('general-error')
+	})
+
+	it('should type the error of a failed re-upload', () => {
+		const { error } = decodeMediaRetryNode({
+			tag: 'receipt',
+			attrs: { id: 'MEDIA' },
+			content: [
+				{ tag: 'rmr', attrs: { jid: '1234@s.whatsapp.net', from_me: 'false' } },
+				{ tag: 'error', attrs: { code: `${ResultType.NOT_FOUND}` } }
+			]
+		})
+		expect(error).toBeInstanceOf(Boom)
+		expect(error?.output.statusCode).toBe(404)
+		expect(error?.data).toEqual(expect.objectContaining({ result: 'not-found' }))
+	})
+
+	it('should re-request expired media & download it from the new path', async () => {
+		const content = randomBytes(100)
+		const { encrypted, mediaKey } = await makeEncryptedMedia(content)
+		const adapter = makeFakeAdapter(({ url }) =>
+			url?.endsWith('/new') ? { status: 200, data: encrypted } : { status: 410 }
+		)
+		const reuploadRequest = jest.fn(async () => makeMediaMessage(mediaKey, '/new'))
+
+		const buffer = await downloadMediaMessage(
+			makeMediaMessage(mediaKey, '/old'),
+			'buffer',
+			{ options: { adapter } },
+			{ logger, reuploadRequest }
+		)
+		expect(buffer).toEqual(content)
+		expect(reuploadRequest).toHaveBeenCalledTimes(1)
+	})
+
+	it('should not re-request media on other errors', async () => {
+		const { mediaKey } = await makeEncryptedMedia(randomBytes(100))
+		const reuploadRequest = jest.fn(async (msg: WAMessage) => msg)
+
+		await expect(
+			downloadMediaMessage(
+				makeMediaMessage(mediaKey, '/old'),
+				'buffer',
+				{ options: { adapter: makeFakeAdapter(() => ({ status: 500 })) } },
+				{ logger, reuploadRequest }
+			)
+		).rejects.toThrow('status code 500')
+		expect(reuploadRequest).not.toHaveBeenCalled()
+	})
+})
@@ -0,0 +1,53 @@
+import NodeCache from '@cacheable/node-cache'
+import { jest } from '@jest/globals'
+import type { CacheStore, MessageContentGenerationOptions, WAMediaUploadFunction } from '../../Types'
+import logger from '../../Utils/logger'
+import { prepareWAMessageMedia } from '../../Utils/messages'
+
+const makeOptions = (config: Partial<MessageContentGenerationOptions> = {}) => {
+	let uploads = 0
+	const upload = jest.fn<WAMediaUploadFunction>(async () => {
+		uploads += 1
+		return { mediaUrl: `https://mmg.whatsapp.net/${uploads}`, directPath: `/${uploads}` }
+	})
+	const options: MessageContentGenerationOptions = {
+		upload,
+		logger,
+		mediaUploadCache: new NodeCache({ useClones: false }) as CacheStore,
+		...config
+	}
+	return { upload, options }
+}
+
+const document = (content: string) => ({ document: Buffer.from(content), mimetype: 'text/plain' })
+
+describe('mediaUploadCache', () => {
+	it('should reuse the upload of the same content', async () => {
+		const { upload, options } = makeOptions()
+
+		const first = await prepareWAMessageMedia({ ...document('a'), fileName: 'a.txt' }, options)
+		const second = await prepareWAMessageMedia({ ...document('a'), fileName: 'copy.txt' }, options)
+		expect(upload).toHaveBeenCalledTimes(1)
+		expect(second.documentMessage).toEqual(
+			expect.objectContaining({
+				url: first.documentMessage!.url,
+				mediaKey: first.documentMessage!.mediaKey,
+				fileEncSha256: first.documentMessage!.fileEncSha256,
+				fileName: 'copy.txt'
+			})
+		)
+		expect(second.documentMessage).not.toHaveProperty('expiresAt')
+
+		await prepareWAMessageMedia(document('b'), options)
+		expect(upload).toHaveBeenCalledTimes(2)
+	})
+
+	it('should upload again once the cached upload expired', async () => {
+		const { upload, options } = makeOptions({ mediaUploadCacheTtlMs: 0 })
+
+		await prepareWAMessageMedia(document('a'), options)
+		const second = await prepareWAMessageMedia(document('a'), options)
+		expect(upload).toHaveBeenCalledTimes(2)
+		expect(second.documentMessage?.url).toBe('https://mmg.whatsapp.net/2')
+	})
+})
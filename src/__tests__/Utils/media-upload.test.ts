@@ -0,0 +1,119 @@
+import { promises as fs } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { DEFAULT_CONNECTION_CONFIG } from '../../Defaults'
+import type { MediaConnInfo, MediaUploadProgress, WAMediaUploadFunction } from '../../Types'
+import logger from '../../Utils/logger'
+import { prepareWAMessageMedia } from '../../Utils/messages'
+import { getWAUploadToServer, RESUMABLE_UPLOAD_MIN_BYTES } from '../../Utils/messages-media'
+import { makeFakeAdapter } from '../TestUtils/media'
+
+type FakeHandler = Parameters<typeof makeFakeAdapter>[0]
+
+const mediaConn: MediaConnInfo = {
+	auth: 'auth',
+	ttl: 60,
+	hosts: [{ hostname: 'wa.host', maxContentLengthBytes: 0 }],
+	fetchDate: new Date()
+}
+
+const makeUpload = (handle: FakeHandler) => {
+	const hostnames: string[] = []
+	const upload = getWAUploadToServer(
+		{
+			...DEFAULT_CONNECTION_CONFIG,
+			customUploadHosts: [{ hostname: 'custom.host', maxContentLengthBytes: 0 }],
+			logger,
+			options: {
+				adapter: makeFakeAdapter((config, body) => {
+					hostnames.push(new URL(config.url!).hostname)
+					return handle(config, body)
+				})
+			}
+		},
+		async () => mediaConn
+	)
+	return { upload, hostnames }
+}
+
+const uploaded = { status: 200, data: JSON.stringify({ url: 'https://wa.host/m', direct_path: '/m' }) }
+
+describe('getWAUploadToServer', () => {
+	let filePath: string
+	beforeEach(async () => {
+		filePath = join(tmpdir(), `baileys-upload-${Date.now()}`)
+		await fs.writeFile(filePath, Buffer.alloc(100))
+	})
+
+	afterEach(async () => {
+		await fs.rm(filePath, { force: true })
+	})
+
+	it('should fail over to the next host & try the failed host last', async () => {
+		const { upload, hostnames } = makeUpload(({ url }) => (url!.includes('custom.host') ? { status: 500 } : uploaded))
+
+		const result = await upload(filePath, { fileEncSha256B64: 'hash', mediaType: 'document' })
+		expect(result).toEqual(expect.objectContaining({ mediaUrl: 'https://wa.host/m', directPath: '/m' }))
+		expect(hostnames).toEqual(['custom.host', 'wa.host'])
+
+		hostnames.length = 0
+		await upload(filePath, { fileEncSha256B64: 'hash', mediaType: 'document' })
+		expect(hostnames).toEqual(['wa.host'])
+	})
+
+	it('should not retry an upload the host rejected', async () => {
+		const { upload, hostnames } = makeUpload(() => ({ status: 413 }))
+
+		await expect(upload(filePath, { fileEncSha256B64: 'hash', mediaType: 'document' })).rejects.toMatchObject({
+			output: { statusCode: 413 }
+		})
+		expect(hostnames).toEqual(['custom.host'])
+	})
+
+	it('should resume a large upload from the bytes the host has', async () => {
+		const total = RESUMABLE_UPLOAD_MIN_BYTES + 10
+		await fs.writeFile(filePath, Buffer.alloc(total, 1))
+		const bodies: Buffer[] = []
+		const { upload } = makeUpload(({ url }, body) => {
+			if (url!.includes('resume=1')) {
+				return { status: 200, data: JSON.stringify({ resume: 1000 }) }
+			}
+
+			expect(url).toContain('file_offset=1000')
+			bodies.push(body)
+			return uploaded
+		})
+
+		const progress: MediaUploadProgress[] = []
+		await upload(filePath, {
+			fileEncSha256B64: 'hash',
+			mediaType: 'document',
+			onProgress: update => progress.push(update)
+		})
+		expect(bodies[0]).toHaveLength(total - 1000)
+		expect(progress.at(-1)).toEqual({ uploaded: total, total, hostname: 'custom.host' })
+	})
+})
+
+describe('prepareWAMessageMedia', () => {
+	it('should encrypt media to the same file when retrying a failed upload', async () => {
+		const hashes: string[] = []
+		const upload: WAMediaUploadFunction = async (_, { fileEncSha256B64 }) => {
+			hashes.push(fileEncSha256B64)
+			if (hashes.length === 1) {
+				throw new Error('connection closed')
+			}
+
+			return { mediaUrl: 'https://mmg.whatsapp.net/m', directPath: '/m' }
+		}
+
+		const document = Buffer.alloc(RESUMABLE_UPLOAD_MIN_BYTES, 1)
+		await expect(prepareWAMessageMedia({ document, mimetype: 'text/plain' }, { upload, logger })).rejects.toThrow(
+			'connection closed'
+		)
+		const message = await prepareWAMessageMedia({ document, mimetype: 'text/plain' }, { upload, logger })
+
+		expect(hashes[1]).toBe(hashes[0])
+		expect(Buffer.from(message.documentMessage!.fileEncSha256!).toString('base64')).toBe(hashes[0])
+	})
+})
@@ -0,0 +1,57 @@
+import type { VideoProbe } from '../../Types'
+import { getVideoBitrates, isPlayableVideo } from '../../Utils/messages-media'
+
+const MB = 1024 * 1024
+
+const playable: VideoProbe = {
+	container: 'mov,mp4,m4a,3gp,3g2,mj2',
+	videoCodec: 'h264',
+	audioCodec: 'aac',
+	pixelFormat: 'yuv420p',
+	seconds: 60,
+	width: 1280,
+	height: 720,
+	fileLength: 10 * MB
+}
+
+describe('isPlayableVideo', () => {
+	it('should play H.264/AAC MP4 within the limits', () => {
+		expect(isPlayableVideo(playable, 100 * MB, 1280, false)).toBe(true)
+		expect(isPlayableVideo({ ...playable, audioCodec: undefined }, 100 * MB, 1280, false)).toBe(true)
+	})
+
+	it.each<[string, Partial<VideoProbe>]>([
+		['another container', { container: 'matroska,webm' }],
+		['another video codec', { videoCodec: 'hevc' }],
+		['another audio codec', { audioCodec: 'opus' }],
+		['another pixel format', { pixelFormat: 'yuv444p' }],
+		['too many bytes', { fileLength: 101 * MB }],
+		['too large dimensions', { width: 720, height: 1920 }]
+	])('should not play a video with %s', (_, probe) => {
+		expect(isPlayableVideo({ ...playable, ...probe }, 100 * MB, 1280, false)).toBe(false)
+	})
+
+	it('should only play square video notes', () => {
+		expect(isPlayableVideo(playable, 100 * MB, 1280, true)).toBe(false)
+		expect(isPlayableVideo({ ...playable, width: 640, height: 640 }, 100 * MB, 1280, true)).toBe(true)
+	})
+})
+
+describe('getVideoBitrates', () => {
+	it('should fit the video & audio in the max bytes', () => {
+		// 10 MB over 100 seconds, less 5% for the container, is 796 kbps
+		expect(getVideoBitrates({ audioCodec: 'aac', seconds: 100 }, 10 * MB)).toEqual({ videoKbps: 668, audioKbps: 128 })
+		expect(getVideoBitrates({ seconds: 100 }, 10 * MB)).toEqual({ videoKbps: 796, audioKbps: 0 })
+	})
+
+	it('should cap the bitrate of short videos', () => {
+		expect(getVideoBitrates({ audioCodec: 'aac', seconds: 1 }, 100 * MB)).toEqual({ videoKbps: 4000, audioKbps: 128 })
+		expect(getVideoBitrates({ seconds: 0 }, 100 * MB)).toEqual({ videoKbps: 4000, audioKbps: 0 })
+	})
+
+	it('should reject a video too long to fit', () => {
+		expect(() => getVideoBitrates({ audioCodec: 'aac', seconds: 3600 }, 10 * MB)).toThrow(
+			expect.objectContaining({ output: expect.objectContaining({ statusCode: 413 }) })
+		)
+	})
+})
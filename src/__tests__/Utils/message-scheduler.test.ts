@@ -0,0 +1,109 @@
+import type { AnyMessageContent, ScheduledMessage } from '../../Types'
+import { makeEventBuffer } from '../../Utils/event-buffer'
+import { delay } from '../../Utils/generics'
+import logger from '../../Utils/logger'
+import { makeMemoryScheduledMessageStore, makeMessageScheduler } from '../../Utils/message-scheduler'
+
+const JID = '1234@s.whatsapp.net'
+
+const makeScheduler = (config: Partial<Parameters<typeof makeMessageScheduler>[0]> = {}) => {
+	const ev = makeEventBuffer(logger)
+	const store = makeMemoryScheduledMessageStore()
+	const sent: AnyMessageContent[] = []
+	const scheduler = makeMessageScheduler({
+		store,
+		missedPolicy: 'send',
+		ev,
+		logger,
+		sendMessage: async (jid, content) => {
+			sent.push(content)
+			return { key: { remoteJid: jid, id: `${sent.length}`, fromMe: true } }
+		},
+		...config
+	})
+	return { ev, store, sent, scheduler }
+}
+
+/** a message persisted by an earlier process, that was due before this one started */
+const makeOverdueMessage = (id: string): ScheduledMessage => ({
+	id,
+	jid: JID,
+	content: { text: id },
+	at: 1,
+	status: 'pending',
+	createdAt: 0
+})
+
+const waitFor = async (check: () => boolean) => {
+	for (let i = 0; i < 100 && !check(); i++) {
+		await delay(5)
+	}
+}
+
+describe('makeMessageScheduler', () => {
+	it('should send a message once due, while the connection is open', async () => {
+		const { ev, sent, scheduler } = makeScheduler()
+		ev.emit('connection.update', { connection: 'open' })
+
+		await scheduler.scheduleMessage(JID, { text: 'hi' }, { at: Date.now() + 20 })
+		expect(sent).toEqual([])
+
+		await waitFor(() => sent.length > 0)
+		expect(sent).toEqual([{ text: 'hi' }])
+		expect(await scheduler.listScheduledMessages()).toEqual([])
+	})
+
+	it('should only apply the missed policy to messages due before the process started', async () => {
+		const { ev, store, sent, scheduler } = makeScheduler({ missedPolicy: 'skip' })
+		const updates: ScheduledMessage[] = []
+		ev.on('scheduled-messages.update', messages => updates.push(...messages))
+		await store.save(makeOverdueMessage('overdue'))
+
+		// comes due while disconnected
+		await scheduler.scheduleMessage(JID, { text: 'reconnect' }, { at: Date.now() + 5 })
+		await delay(10)
+		ev.emit('connection.update', { connection: 'open' })
+
+		await waitFor(() => sent.length > 0)
+		expect(sent).toEqual([{ text: 'reconnect' }])
+		expect(updates.find(({ id }) => id === 'overdue')).toEqual(
+			expect.objectContaining({ status: 'failed', error: 'Missed the scheduled time' })
+		)
+	})
+
+	it('should reschedule missed messages with a policy function', async () => {
+		const { ev, store, sent } = makeScheduler({ missedPolicy: () => Date.now() })
+		await store.save(makeOverdueMessage('overdue'))
+		ev.emit('connection.update', { connection: 'open' })
+
+		await waitFor(() => sent.length > 0)
+		expect(sent).toEqual([{ text: 'overdue' }])
+	})
+
+	it('should not send cancelled messages', async () => {
+		const { ev, sent, scheduler } = makeScheduler()
+		ev.emit('connection.update', { connection: 'open' })
+
+		const { id } = await scheduler.scheduleMessage(JID, { text: 'hi' }, { at: Date.now() + 10 })
+		expect(await scheduler.cancelScheduledMessage(id)).toBe(true)
+		expect(await scheduler.cancelScheduledMessage(id)).toBe(false)
+
+		await delay(20)
+		expect(sent).toEqual([])
+	})
+
+	it('should mark a message failed when sending fails', async () => {
+		const { ev, scheduler } = makeScheduler({
+			sendMessage: async () => {
+				throw new Error('not connected')
+			}
+		})
+		const updates: ScheduledMessage[] = []
+		ev.on('scheduled-messages.update', messages => updates.push(...messages))
+		ev.emit('connection.update', { connection: 'open' })
+
+		await scheduler.scheduleMessage(JID, { text: 'hi' }, { at: Date.now() })
+		await waitFor(() => updates.length > 1)
+		expect(updates[1]).toEqual(expect.objectContaining({ status: 'failed', error: 'not connected' }))
+	})
+})
@@ -0,0 +1,93 @@
+import { randomBytes } from 'crypto'
+import type { AuthenticationCreds, WAMessage, WAMessageKey } from '../../Types'
+import { makeEventBuffer } from '../../Utils/event-buffer'
+import logger from '../../Utils/logger'
+import { makePollTracker } from '../../Utils/poll-tracker'
+import { encryptPollVote } from '../TestUtils/poll-vote'
+
+const ME = '1111@s.whatsapp.net'
+const GROUP = '123-456@g.us'
+const VOTER = '2222@s.whatsapp.net'
+
+const makePoll = (id: string) => {
+	const secret = randomBytes(32)
+	const poll = {
+		key: { remoteJid: GROUP, id, fromMe: true },
+		message: {
+			messageContextInfo: { messageSecret: secret },
+			pollCreationMessage: { name: 'lunch?', options: [{ optionName: 'pizza' }, { optionName: 'sushi' }] }
+		}
+	}
+	return { poll, secret }
+}
+
+const makeVote = (
+	{ poll, secret }: ReturnType<typeof makePoll>,
+	options: string[],
+	senderTimestampMs: number
+): WAMessage => ({
+	key: { remoteJid: GROUP, id: `vote-${senderTimestampMs}`, participant: VOTER, fromMe: false },
+	message: {
+		pollUpdateMessage: {
+			pollCreationMessageKey: poll.key,
+			vote: encryptPollVote(options, {
+				pollCreatorJid: ME,
+				pollMsgId: poll.key.id,
+				pollEncKey: secret,
+				voterJid: VOTER
+			}),
+			senderTimestampMs
+		}
+	}
+})
+
+const makeTracker = () => {
+	const ev = makeEventBuffer(logger)
+	const tracker = makePollTracker({
+		ev,
+		logger,
+		creds: { me: { id: '1111:2@s.whatsapp.net', lid: '9999@lid' } } as AuthenticationCreds,
+		getMessage: async () => undefined
+	})
+	return { ev, tracker }
+}
+
+const getVotes = async (tracker: ReturnType<typeof makeTracker>['tracker'], key: WAMessageKey) =>
+	(await tracker.getTally(key))?.votes
+
+describe('makePollTracker', () => {
+	it('should count the latest vote of each voter', async () => {
+		const { ev, tracker } = makeTracker()
+		const created = makePoll('POLL')
+		ev.emit('messages.upsert', { messages: [created.poll], type: 'notify' })
+
+		ev.emit('messages.upsert', { messages: [makeVote(created, ['pizza'], 2)], type: 'notify' })
+		// arrives late, but was cast before the vote above
+		ev.emit('messages.upsert', { messages: [makeVote(created, ['sushi'], 1)], type: 'notify' })
+
+		expect(await getVotes(tracker, created.poll.key)).toEqual({ [VOTER]: ['pizza'] })
+	})
+
+	it('should ignore votes cast after the poll closed', async () => {
+		const { ev, tracker } = makeTracker()
+		const created = makePoll('POLL')
+		await tracker.track(created.poll, { closesAt: 5 })
+
+		ev.emit('messages.upsert', { messages: [makeVote(created, ['sushi'], 1)], type: 'notify' })
+		ev.emit('messages.upsert', { messages: [makeVote(created, ['pizza'], 10)], type: 'notify' })
+
+		expect(await getVotes(tracker, created.poll.key)).toEqual({ [VOTER]: ['sushi'] })
+	})
+
+	it('should only keep the most recently active polls', async () => {
+		const { tracker } = makeTracker()
+		const first = makePoll('POLL-0')
+		await tracker.track(first.poll)
+		for (let i = 1; i <= 1000; i++) {
+			await tracker.track(makePoll(`POLL-${i}`).poll)
+		}
+
+		expect(await tracker.getTally(first.poll.key)).toBeUndefined()
+		expect(await tracker.getTally({ ...first.poll.key, id: 'POLL-1000' })).toBeDefined()
+	})
+})
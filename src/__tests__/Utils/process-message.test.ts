@@ -0,0 +1,121 @@
+import { createHash, randomBytes } from 'crypto'
+import { proto } from '../../../WAProto/index.js'
+import type {
+	AuthenticationCreds,
+	BaileysEventMap,
+	SignalKeyStoreWithTransaction,
+	SignalRepositoryWithLIDStore
+} from '../../Types'
+import { makeEventBuffer } from '../../Utils/event-buffer'
+import logger from '../../Utils/logger'
+import processMessage, {
+	decryptEventResponse,
+	decryptMessageAddon,
+	decryptPollVote,
+	encryptEventResponse
+} from '../../Utils/process-message'
+import { encryptPollVote } from '../TestUtils/poll-vote'
+
+const CREATOR = '1111@s.whatsapp.net'
+const VOTER = '2222@s.whatsapp.net'
+const VOTER_LID = '9999@lid'
+const GROUP = '123-456@g.us'
+
+describe('decryptPollVote', () => {
+	it('should decrypt a vote encrypted by a WA client', () => {
+		const ctx = { pollCreatorJid: CREATOR, pollMsgId: 'POLL', pollEncKey: randomBytes(32), voterJid: VOTER }
+		const { selectedOptions } = decryptPollVote(encryptPollVote(['pizza'], ctx), ctx)
+		expect(selectedOptions.map(hash => Buffer.from(hash))).toEqual([createHash('sha256').update('pizza').digest()])
+	})
+
+	it('should fail with the wrong voter', () => {
+		const ctx = { pollCreatorJid: CREATOR, pollMsgId: 'POLL', pollEncKey: randomBytes(32), voterJid: VOTER }
+		expect(() => decryptPollVote(encryptPollVote(['pizza'], ctx), { ...ctx, voterJid: VOTER_LID })).toThrow()
+	})
+})
+
+describe('encryptEventResponse', () => {
+	it('should round trip with decryptEventResponse', () => {
+		const ctx = { eventCreatorJid: CREATOR, eventMsgId: 'EVENT', eventEncKey: randomBytes(32), responderJid: VOTER }
+		const response = {
+			response: proto.Message.EventResponseMessage.EventResponseType.GOING,
+			timestampMs: 1000,
+			extraGuestCount: 2
+		}
+
+		const decrypted = decryptEventResponse(encryptEventResponse(response, ctx), ctx)
+		expect(proto.Message.EventResponseMessage.toObject(decrypted, { longs: Number })).toEqual(response)
+		expect(() => decryptEventResponse(encryptEventResponse(response, ctx), { ...ctx, eventMsgId: 'OTHER' })).toThrow()
+	})
+})
+
+describe('decryptMessageAddon', () => {
+	const pollEncKey = randomBytes(32)
+	const creatorKey = { remoteJid: CREATOR, id: 'POLL', fromMe: false }
+	const decrypt = (vote: proto.Message.IPollEncValue) => (pollCreatorJid: string, voterJid: string) =>
+		decryptPollVote(vote, { pollCreatorJid, pollMsgId: 'POLL', pollEncKey, voterJid })
+
+	it('should try the alternate JID of the sender', () => {
+		const vote = encryptPollVote(['pizza'], {
+			pollCreatorJid: CREATOR,
+			pollMsgId: 'POLL',
+			pollEncKey,
+			voterJid: VOTER_LID
+		})
+		const decrypted = decryptMessageAddon(
+			{ creatorKey, senderKey: { remoteJid: VOTER, remoteJidAlt: VOTER_LID, id: 'VOTE' }, me: undefined },
+			decrypt(vote)
+		)
+		expect(decrypted?.sender).toBe(VOTER)
+		expect(decrypted?.result.selectedOptions).toHaveLength(1)
+	})
+
+	it('should return undefined when no JID matches', () => {
+		const vote = encryptPollVote(['pizza'], {
+			pollCreatorJid: CREATOR,
+			pollMsgId: 'POLL',
+			pollEncKey,
+			voterJid: VOTER_LID
+		})
+		const decrypted = decryptMessageAddon(
+			{ creatorKey, senderKey: { remoteJid: VOTER, id: 'VOTE' }, me: undefined },
+			decrypt(vote)
+		)
+		expect(decrypted).toBeUndefined()
+	})
+})
+
+describe('processMessage', () => {
+	it('should record an edit by another user without changing the protocol message', async () => {
+		const ev = makeEventBuffer(logger)
+		const updates: BaileysEventMap['messages.edit-history'] = []
+		ev.on('messages.edit-history', update => updates.push(...update))
+
+		// the sender refers to their own message
+		const editedKey = { remoteJid: GROUP, fromMe: true, id: 'ORIGINAL' }
+		const message = {
+			key: { remoteJid: GROUP, participant: VOTER, fromMe: false, id: 'EDIT' },
+			message: {
+				protocolMessage: {
+					type: proto.Message.ProtocolMessage.Type.MESSAGE_EDIT,
+					key: editedKey,
+					editedMessage: { conversation: 'fixed' }
+				}
+			},
+			messageTimestamp: 1
+		}
+		await processMessage(message, {
+			shouldProcessHistoryMsg: false,
+			ev,
+			creds: { me: { id: CREATOR } } as AuthenticationCreds,
+			keyStore: {} as SignalKeyStoreWithTransaction,
+			signalRepository: {} as SignalRepositoryWithLIDStore,
+			options: {}
+		})
+
+		expect(updates).toEqual([
+			expect.objectContaining({ key: { remoteJid: GROUP, fromMe: false, id: 'ORIGINAL', participant: VOTER } })
+		])
+		expect(message.message.protocolMessage.key).toEqual({ remoteJid: GROUP, fromMe: true, id: 'ORIGINAL' })
+	})
+})
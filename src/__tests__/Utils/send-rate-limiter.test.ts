@@ -0,0 +1,79 @@
+import { Boom } from '@hapi/boom'
+import { jest } from '@jest/globals'
+import { delay } from '../../Utils/generics'
+import logger from '../../Utils/logger'
+import { makeSendRateLimiter } from '../../Utils/send-rate-limiter'
+
+const JID_A = '1111@s.whatsapp.net'
+const JID_B = '2222@s.whatsapp.net'
+
+describe('makeSendRateLimiter', () => {
+	it('should only pause on rate limit ack errors by default', () => {
+		const limiter = makeSendRateLimiter({}, logger)
+
+		limiter.handleAckError(500)
+		limiter.handleAckError(487)
+		expect(limiter.getState().pausedUntil).toBeUndefined()
+
+		limiter.handleAckError(463)
+		expect(limiter.getState()).toEqual(expect.objectContaining({ pauseReason: 463 }))
+
+		limiter.resume()
+		limiter.handleAckError(429)
+		expect(limiter.getState()).toEqual(expect.objectContaining({ pauseReason: 429 }))
+	})
+
+	it('should pause when a send fails with a rate limit', async () => {
+		const limiter = makeSendRateLimiter({}, logger)
+		const send = limiter.schedule(JID_A, async () => {
+			throw new Boom('rate-overlimit', { statusCode: 429 })
+		})
+
+		await expect(send).rejects.toThrow('rate-overlimit')
+		expect(limiter.getState()).toEqual(expect.objectContaining({ pauseReason: 429 }))
+	})
+
+	it('should keep sends to a recipient in order, without holding up other recipients', async () => {
+		const limiter = makeSendRateLimiter({ perJid: { limit: 1, intervalMs: 100 } }, logger)
+		const sent: string[] = []
+		const send = (jid: string, id: string) =>
+			limiter.schedule(jid, async () => {
+				sent.push(id)
+				return id
+			})
+
+		// the second send to A waits for its budget to refill
+		const sends = [send(JID_A, 'a1'), send(JID_A, 'a2'), send(JID_B, 'b1')]
+		await delay(20)
+		expect(sent).toEqual(['a1', 'b1'])
+		expect(limiter.getState().queued).toBe(1)
+
+		expect(await Promise.all(sends)).toEqual(['a1', 'a2', 'b1'])
+		expect(sent).toEqual(['a1', 'b1', 'a2'])
+	})
+
+	it('should wake all waiting sends when resumed', async () => {
+		const limiter = makeSendRateLimiter({}, logger)
+		limiter.pause(60_000)
+
+		const sends = [JID_A, JID_B].map(jid => limiter.schedule(jid, async () => jid))
+		await delay(10)
+		expect(limiter.getState().queued).toBe(2)
+
+		limiter.resume()
+		expect(await Promise.all(sends)).toEqual([JID_A, JID_B])
+	})
+
+	it('should only ask about contacts not messaged since the socket started', async () => {
+		const isNewContact = jest.fn(async (jid: string) => jid === JID_B)
+		const limiter = makeSendRateLimiter({ newContacts: { limit: 1, intervalMs: 60_000 }, isNewContact }, logger)
+
+		limiter.markContactKnown(JID_A)
+		await limiter.schedule(JID_A, async () => {})
+		expect(isNewContact).not.toHaveBeenCalled()
+
+		await limiter.schedule(JID_B, async () => {})
+		expect(isNewContact).toHaveBeenCalledWith(JID_B)
+		expect(limiter.getState().newContacts?.tokens).toBe(0)
+	})
+})
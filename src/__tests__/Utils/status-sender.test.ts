@@ -0,0 +1,70 @@
+import { jest } from '@jest/globals'
+import { proto } from '../../../WAProto/index.js'
+import { makeEventBuffer } from '../../Utils/event-buffer'
+import logger from '../../Utils/logger'
+import { makeStatusSender, type StatusSenderConfig } from '../../Utils/status-sender'
+import { STORIES_JID } from '../../WABinary'
+
+const makeSender = () => {
+	const ev = makeEventBuffer(logger)
+	const relayMessage = jest.fn<StatusSenderConfig['relayMessage']>(async () => {})
+	const sender = makeStatusSender({
+		ev,
+		logger,
+		generateMessage: async (jid, content) => ({
+			key: { remoteJid: jid, id: 'STATUS', fromMe: true },
+			message: { extendedTextMessage: { text: 'text' in content ? content.text : '' } }
+		}),
+		relayMessage
+	})
+	return { ev, relayMessage, sender }
+}
+
+describe('makeStatusSender', () => {
+	it('should send to the contacts received on the socket by default', async () => {
+		const { ev, relayMessage, sender } = makeSender()
+		ev.emit('contacts.upsert', [{ id: '1111@s.whatsapp.net' }, { id: '123-456@g.us' }])
+		ev.emit('contacts.update', [{ id: '2222:3@s.whatsapp.net' }])
+		ev.emit('messaging-history.set', {
+			chats: [],
+			contacts: [{ id: '3333@lid' }],
+			messages: [],
+			isLatest: true
+		})
+
+		const status = await sender.sendStatus({ text: 'hi' }, { audience: { exclude: ['3333@lid'] } })
+		expect(status.statusJidList).toEqual(['1111@s.whatsapp.net', '2222@s.whatsapp.net'])
+		expect(relayMessage).toHaveBeenCalledWith(STORIES_JID, expect.anything(), {
+			messageId: 'STATUS',
+			statusJidList: status.statusJidList
+		})
+	})
+
+	it('should send each chunk of a large audience as its own message', async () => {
+		const { relayMessage, sender } = makeSender()
+		const allow = ['1111@s.whatsapp.net', '2222@s.whatsapp.net', '3333@s.whatsapp.net']
+
+		const status = await sender.sendStatus({ text: 'hi' }, { audience: { allow }, chunkSize: 2 })
+		expect(status.chunks.map(({ statusJidList }) => statusJidList)).toEqual([allow.slice(0, 2), allow.slice(2)])
+		expect(status.chunks[0]!.key).toEqual(status.key)
+		expect(status.chunks[1]!.key.id).not.toBe(status.key.id)
+		expect(relayMessage.mock.calls.map(([, , { messageId }]) => messageId)).toEqual(
+			status.chunks.map(({ key }) => key.id)
+		)
+
+		relayMessage.mockClear()
+		await sender.deleteStatus(status)
+		expect(relayMessage.mock.calls).toEqual(
+			status.chunks.map(({ key, statusJidList }) => [
+				STORIES_JID,
+				{ protocolMessage: { key, type: proto.Message.ProtocolMessage.Type.REVOKE } },
+				{ messageId: expect.any(String), statusJidList, additionalAttributes: { edit: '7' } }
+			])
+		)
+	})
+
+	it('should reject a status without an audience', async () => {
+		const { sender } = makeSender()
+		await expect(sender.sendStatus({ text: 'hi' })).rejects.toThrow('The status has no audience')
+	})
+})
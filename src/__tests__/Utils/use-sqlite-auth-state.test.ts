@@ -0,0 +1,53 @@
+import { randomBytes } from 'crypto'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { proto } from '../../../WAProto/index.js'
+import { makeAuthStateCipher } from '../../Utils/auth-encryption'
+import { useSqliteAuthState } from '../../Utils/use-sqlite-auth-state'
+
+describe('useSqliteAuthState', () => {
+	let dir: string
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), 'sqlite-auth-'))
+	})
+	afterEach(() => {
+		rmSync(dir, { recursive: true, force: true })
+	})
+
+	it('should persist the creds & keys across instances', async () => {
+		const path = join(dir, 'auth.db')
+		const first = await useSqliteAuthState(path)
+		first.state.creds.registered = true
+		await first.saveCreds()
+		await first.state.keys.set({
+			session: { '123.0': Buffer.from('session') },
+			'app-state-sync-key': { abc: { keyData: Buffer.from('key') } }
+		})
+		await first.state.keys.set({ session: { '123.0': null, '456.0': Buffer.from('other') } })
+		await first.close()
+
+		const second = await useSqliteAuthState(path)
+		expect(second.state.creds.registered).toBe(true)
+		expect(second.state.creds.noiseKey).toEqual(first.state.creds.noiseKey)
+		expect(await second.state.keys.get('session', ['123.0', '456.0'])).toEqual({ '456.0': Buffer.from('other') })
+		const { abc } = await second.state.keys.get('app-state-sync-key', ['abc'])
+		expect(abc).toBeInstanceOf(proto.Message.AppStateSyncKeyData)
+		expect(Buffer.from(abc!.keyData!)).toEqual(Buffer.from('key'))
+		await second.close()
+	})
+
+	it('should require the cipher to read encrypted values', async () => {
+		const path = join(dir, 'auth.db')
+		const key = randomBytes(32)
+		const cipher = makeAuthStateCipher({ getKey: () => key })
+		const encrypted = await useSqliteAuthState(path, cipher)
+		await encrypted.saveCreds()
+		await encrypted.close()
+
+		await expect(useSqliteAuthState(path)).rejects.toThrow('creds is encrypted')
+		const decrypted = await useSqliteAuthState(path, cipher)
+		expect(decrypted.state.creds.noiseKey).toEqual(encrypted.state.creds.noiseKey)
+		await decrypted.close()
+	})
+})
@@ -0,0 +1,106 @@
+import { jest } from '@jest/globals'
+import type { AuthenticationCreds } from '../../Types'
+import { verifyAuthState } from '../../Utils/verify-auth-state'
+import { makeMemoryKeyStore } from '../TestUtils/memory-key-store'
+
+const keyPair = { public: Buffer.alloc(32, 1), private: Buffer.alloc(32, 2) }
+
+const makeCreds = (creds: Partial<AuthenticationCreds> = {}) =>
+	({
+		noiseKey: keyPair,
+		signedIdentityKey: keyPair,
+		signedPreKey: { keyPair, signature: Buffer.alloc(64), keyId: 1 },
+		advSecretKey: 'secret',
+		registrationId: 1,
+		registered: false,
+		nextPreKeyId: 3,
+		firstUnuploadedPreKeyId: 3,
+		...creds
+	}) as AuthenticationCreds
+
+describe('verifyAuthState', () => {
+	it('should report a healthy state', async () => {
+		const { store } = makeMemoryKeyStore()
+		await store.set({ 'pre-key': { '1': keyPair, '2': keyPair } })
+
+		const report = await verifyAuthState({ creds: makeCreds(), keys: store })
+
+		expect(report).toEqual(
+			expect.objectContaining({ healthy: true, issues: [], rePairRequired: false, skippedChecks: [] })
+		)
+	})
+
+	it('should flag missing creds as requiring a re-pair', async () => {
+		const { store } = makeMemoryKeyStore()
+		await store.set({ 'pre-key': { '2': keyPair } })
+
+		const report = await verifyAuthState({ creds: makeCreds({ registered: true }), keys: store })
+
+		expect(report.rePairRequired).toBe(true)
+		expect(report.issues[0]).toEqual(expect.objectContaining({ code: 'invalid-creds', ids: ['me', 'account'] }))
+	})
+
+	it('should drop orphaned & stale entries on repair', async () => {
+		const { data, store } = makeMemoryKeyStore()
+		await store.set({
+			'pre-key': { '2': keyPair, '7': keyPair },
+			session: { '1234.0': Buffer.from('a'), '1234.5': Buffer.from('b'), '999_1.3': Buffer.from('c') },
+			'device-list': { '1234': ['0', '3'] },
+			'lid-mapping': { '1234': '999' }
+		})
+
+		const report = await verifyAuthState(
+			{ creds: makeCreds(), keys: store },
+			{ repair: true, fetchDevices: async () => ({ '1234': ['0', '3'] }) }
+		)
+
+		expect(report.issues.map(({ code, ids, repaired }) => ({ code, ids, repaired }))).toEqual([
+			{ code: 'orphaned-pre-keys', ids: ['7'], repaired: true },
+			{ code: 'inconsistent-lid-mappings', ids: ['999_reverse'], repaired: true },
+			{ code: 'stale-sessions', ids: ['1234.5'], repaired: true }
+		])
+		expect(data['pre-key.7']).toBeUndefined()
+		expect(data['session.1234.5']).toBeUndefined()
+		expect(data['session.999_1.3']).toBeDefined()
+		expect(data['lid-mapping.999_reverse']).toBe('1234')
+	})
+
+	it('should only drop sessions of devices confirmed to be unlinked', async () => {
+		const { data, store } = makeMemoryKeyStore()
+		await store.set({
+			'pre-key': { '2': keyPair },
+			session: { '1234.0': Buffer.from('a'), '1234.5': Buffer.from('b') },
+			'device-list': { '1234': ['0'] }
+		})
+
+		const unconfirmed = await verifyAuthState({ creds: makeCreds(), keys: store }, { repair: true })
+		expect(unconfirmed.issues).toEqual([expect.objectContaining({ code: 'stale-sessions', repaired: false })])
+		expect(data['session.1234.5']).toBeDefined()
+
+		// device 5 was linked after the device list was cached
+		const fetchDevices = jest.fn(async () => ({ '1234': ['0', '5'] }))
+		const report = await verifyAuthState({ creds: makeCreds(), keys: store }, { repair: true, fetchDevices })
+		expect(fetchDevices).toHaveBeenCalledWith(['1234'])
+		expect(report.healthy).toBe(true)
+		expect(data['session.1234.5']).toBeDefined()
+		expect(data['device-list.1234']).toEqual(['0', '5'])
+	})
+
+	it('should reset app state versions without a sync key', async () => {
+		const { data, store } = makeMemoryKeyStore()
+		await store.set({
+			'pre-key': { '2': keyPair },
+			'app-state-sync-version': { regular: { version: 3, hash: Buffer.alloc(128), indexValueMap: {} } }
+		})
+
+		const report = await verifyAuthState(
+			{ creds: makeCreds({ myAppStateKeyId: 'AAA=' }), keys: store },
+			{ repair: true }
+		)
+
+		expect(report.issues).toEqual([
+			expect.objectContaining({ code: 'missing-app-state-sync-key', ids: ['regular'], repaired: true })
+		])
+		expect(data['app-state-sync-version.regular']).toBeUndefined()
+	})
+})
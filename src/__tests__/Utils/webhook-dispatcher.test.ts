@@ -0,0 +1,113 @@
+import { createHmac } from 'crypto'
+import { existsSync, mkdtempSync, readFileSync, writeFileSync } from 'fs'
+import { createServer, type IncomingMessage, type Server } from 'http'
+import type { AddressInfo } from 'net'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { makeEventBuffer } from '../../Utils/event-buffer'
+import { delay } from '../../Utils/generics'
+import logger from '../../Utils/logger'
+import { createWebhookDispatcher } from '../../Utils/webhook-dispatcher'
+
+type Received = { headers: IncomingMessage['headers']; body: string }
+
+describe('createWebhookDispatcher', () => {
+	let server: Server
+	let url: string
+	let received: Received[]
+	let statuses: number[]
+
+	beforeEach(async () => {
+		received = []
+		statuses = []
+		server = createServer((req, res) => {
+			let body = ''
+			req.on('data', chunk => (body += chunk))
+			req.on('end', () => {
+				received.push({ headers: req.headers, body })
+				res.writeHead(statuses.shift() || 200).end()
+			})
+		})
+		await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+		url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`
+	})
+
+	afterEach(async () => {
+		await new Promise(resolve => server.close(resolve))
+	})
+
+	it('should deliver signed events, retrying server errors', async () => {
+		const ev = makeEventBuffer(logger)
+		const dispatcher = createWebhookDispatcher(ev, {
+			url,
+			events: ['chats.delete'],
+			secret: 'secret',
+			retryDelayMs: 1
+		})
+		statuses.push(500)
+
+		ev.emit('chats.delete', ['1234@s.whatsapp.net'])
+		ev.emit('chats.update', [{ id: '1234@s.whatsapp.net' }])
+		while (received.length < 2) {
+			await delay(5)
+		}
+
+		await dispatcher.close()
+
+		expect(received).toHaveLength(2)
+		const [, { headers, body }] = received as [Received, Received]
+		expect(JSON.parse(body)).toEqual(expect.objectContaining({ event: 'chats.delete', data: ['1234@s.whatsapp.net'] }))
+		const signature = createHmac('sha256', 'secret').update(`${headers['x-baileys-timestamp']}.${body}`).digest('hex')
+		expect(headers['x-baileys-signature']).toBe(`sha256=${signature}`)
+		expect(dispatcher.getMetrics()[url]).toEqual(expect.objectContaining({ delivered: 1, retries: 1, failed: 0 }))
+	})
+
+	it('should queue undeliverable events for redelivery', async () => {
+		const queueFile = join(mkdtempSync(join(tmpdir(), 'webhook-')), 'queue.jsonl')
+		const ev = makeEventBuffer(logger)
+		const dispatcher = createWebhookDispatcher(ev, { url, events: ['chats.delete'], queueFile, maxRetries: 0 })
+		statuses.push(503)
+
+		ev.emit('chats.delete', ['1234@s.whatsapp.net'])
+		await dispatcher.close()
+
+		expect(readFileSync(queueFile, 'utf-8').trim().split('\n')).toHaveLength(1)
+		expect(dispatcher.getMetrics()[url]).toEqual(expect.objectContaining({ failed: 1, queued: 1 }))
+
+		expect(await dispatcher.redeliver()).toBe(1)
+		expect(received).toHaveLength(2)
+		expect(dispatcher.getMetrics()[url]).toEqual(expect.objectContaining({ delivered: 1, queued: 0 }))
+	})
+
+	it('should redeliver queued events for endpoints no longer configured once', async () => {
+		const queueFile = join(mkdtempSync(join(tmpdir(), 'webhook-')), 'queue.jsonl')
+		const delivery = { id: 'queued', url, event: 'chats.delete', body: '{}' }
+		writeFileSync(queueFile, JSON.stringify(delivery) + '\n')
+		const dispatcher = createWebhookDispatcher(makeEventBuffer(logger), {
+			url: 'http://127.0.0.1:1/other',
+			events: ['chats.delete'],
+			queueFile
+		})
+
+		expect(await dispatcher.redeliver()).toBe(1)
+		expect(await dispatcher.redeliver()).toBe(0)
+		expect(received).toHaveLength(1)
+		expect(existsSync(queueFile)).toBe(false)
+		expect(dispatcher.getMetrics()[url]).toEqual(expect.objectContaining({ delivered: 1, queued: 0 }))
+		await dispatcher.close()
+	})
+
+	it('should drop events the endpoint rejects, instead of queueing them', async () => {
+		const queueFile = join(mkdtempSync(join(tmpdir(), 'webhook-')), 'queue.jsonl')
+		const ev = makeEventBuffer(logger)
+		const dispatcher = createWebhookDispatcher(ev, { url, events: ['chats.delete'], queueFile, retryDelayMs: 1 })
+		statuses.push(400)
+
+		ev.emit('chats.delete', ['1234@s.whatsapp.net'])
+		await dispatcher.close()
+
+		expect(received).toHaveLength(1)
+		expect(existsSync(queueFile)).toBe(false)
+		expect(dispatcher.getMetrics()[url]).toEqual(expect.objectContaining({ failed: 1, queued: 0 }))
+	})
+})
@@ -7,6 +7,7 @@ export * from './Defaults/index'
 export * from './WABinary/index'
 export * from './WAM/index'
 export * from './WAUSync/index'
+export * from './Store/index'
 
 export type WASocket = ReturnType<typeof makeWASocket>
 export { makeWASocket }